@@ -8,6 +8,7 @@ import { getUserPositions, getUserOpenOrders } from "@/lib/db/queries/trading";
 import { getIndexPrices } from "@/lib/services/prices";
 import { calculateUnrealizedPnl } from "@/lib/services/margin";
 import { PAIRS } from "@/lib/trading/constants";
+import { toNumber } from "@/lib/trading/decimal";
 import type { FuturesPair } from "@/lib/trading/constants";
 import Link from "next/link";
 
@@ -20,7 +21,10 @@ const TX_TYPE_LABELS: Record<string, string> = {
   fee: "Trading Fee",
   margin_lock: "Margin Lock",
   margin_release: "Margin Release",
+  margin_add: "Margin Added",
+  margin_remove: "Margin Removed",
   liquidation: "Liquidation",
+  adl: "Auto-Deleveraged",
   funding: "Funding",
 };
 
@@ -46,12 +50,14 @@ export default async function Dashboard() {
     const contract = pos.contract as FuturesPair;
     const pairConfig = PAIRS[contract];
     const markPrice = contract === "XAU-PERP" ? prices.gold : prices.silver;
-    totalPnl += calculateUnrealizedPnl(
-      pos.side as "long" | "short",
-      pos.entryPrice,
-      markPrice.toString(),
-      pos.quantity,
-      pairConfig.contractSize
+    totalPnl += toNumber(
+      calculateUnrealizedPnl(
+        pos.side as "long" | "short",
+        pos.entryPrice,
+        markPrice.toString(),
+        pos.quantity,
+        pairConfig.contractSize
+      )
     );
   }
 
@@ -1,11 +1,21 @@
 import { getSession } from "@/lib/auth/session";
 import { getUserWallets } from "@/lib/db/queries/wallet";
-import { getOrderBook, getRecentTrades, getUserOpenOrders } from "@/lib/db/queries/trading";
+import {
+  getOrderBook,
+  getRecentTrades,
+  getUserOpenOrders,
+  getUserTwapOrders,
+} from "@/lib/db/queries/trading";
 import { PAIRS } from "@/lib/trading/constants";
+import { getMarketState } from "@/lib/services/markets";
+import { getIndicativeAuction } from "@/lib/services/auction";
+import { getTwapProgress } from "@/lib/services/twap";
 import OrderBook from "@/app/components/OrderBook";
 import TradeHistory from "@/app/components/TradeHistory";
 import TradingFormTabs from "@/app/components/TradingFormTabs";
 import OpenOrdersTable from "@/app/components/OpenOrdersTable";
+import TwapOrdersTable from "@/app/components/TwapOrdersTable";
+import MarketStatusBanner from "@/app/components/MarketStatusBanner";
 
 export default async function StablecoinExchange() {
   const user = await getSession();
@@ -15,6 +25,10 @@ export default async function StablecoinExchange() {
   const orderBook = await getOrderBook("USDT-USDC");
   const recentTrades = await getRecentTrades("USDT-USDC", 20);
   const openOrders = await getUserOpenOrders(user.id, "USDT-USDC");
+  const twaps = await getUserTwapOrders(user.id, { pair: "USDT-USDC" });
+  const market = await getMarketState("USDT-USDC");
+  const indicative =
+    market.status === "auction" ? await getIndicativeAuction("USDT-USDC") : null;
 
   const pairConfig = PAIRS["USDT-USDC"];
 
@@ -27,6 +41,13 @@ export default async function StablecoinExchange() {
         Exchange stablecoins at free-market rates. Place limit or market orders.
       </p>
 
+      <MarketStatusBanner
+        status={market.status}
+        reason={market.reason}
+        resumesAt={market.resumesAt}
+        indicative={indicative}
+      />
+
       <div className="grid gap-6 lg:grid-cols-3">
         {/* Left: Order Book */}
         <div>
@@ -70,7 +91,11 @@ export default async function StablecoinExchange() {
         {/* Right: Recent Trades + Open Orders */}
         <div className="space-y-6">
           <TradeHistory trades={recentTrades} pair="USDT-USDC" accentColor="gold" />
-          <OpenOrdersTable orders={openOrders} accentColor="gold" />
+          <OpenOrdersTable orders={openOrders} pair="USDT-USDC" accentColor="gold" />
+          <TwapOrdersTable
+            twaps={twaps.map((twap) => ({ ...twap, progress: getTwapProgress(twap) }))}
+            accentColor="gold"
+          />
         </div>
       </div>
     </div>
@@ -3,46 +3,26 @@ import {
   getUserPositions,
   getUserOpenOrders,
   getUserTradeHistory,
+  getUserLiquidationEvents,
 } from "@/lib/db/queries/trading";
-import { getMarkPrice } from "@/lib/services/prices";
-import { calculateUnrealizedPnl } from "@/lib/services/margin";
-import { PAIRS } from "@/lib/trading/constants";
-import type { FuturesPair } from "@/lib/trading/constants";
+import { enrichPositions } from "@/lib/services/crossmargin";
 import PositionCard from "@/app/components/PositionCard";
 import OpenOrdersTable from "@/app/components/OpenOrdersTable";
+import LiquidationHistory from "@/app/components/LiquidationHistory";
 
 export default async function Positions() {
   const user = await getSession();
   if (!user) return null;
 
-  const [openPositions, openOrders, tradeHistory] = await Promise.all([
+  const [openPositions, openOrders, tradeHistory, liquidationEvents] = await Promise.all([
     getUserPositions(user.id, "open"),
     getUserOpenOrders(user.id),
     getUserTradeHistory(user.id, 30),
+    getUserLiquidationEvents(user.id, 30),
   ]);
 
-  // Enrich positions with mark prices and PnL
-  const enrichedPositions = await Promise.all(
-    openPositions.map(async (pos) => {
-      const contract = pos.contract as FuturesPair;
-      const pairConfig = PAIRS[contract];
-      const markData = await getMarkPrice(contract);
-
-      const unrealizedPnl = calculateUnrealizedPnl(
-        pos.side as "long" | "short",
-        pos.entryPrice,
-        markData.markPrice,
-        pos.quantity,
-        pairConfig.contractSize
-      );
-
-      return {
-        ...pos,
-        unrealizedPnl: unrealizedPnl.toFixed(8),
-        markPrice: markData.markPrice,
-      };
-    })
-  );
+  // Enrich positions with mark prices, PnL and margin ratio
+  const { positions: enrichedPositions } = await enrichPositions(user.id, openPositions);
 
   const totalUnrealizedPnl = enrichedPositions.reduce(
     (sum, p) => sum + parseFloat(p.unrealizedPnl),
@@ -96,6 +76,13 @@ export default async function Positions() {
         <OpenOrdersTable orders={openOrders} accentColor="gold" />
       </section>
 
+      {/* Liquidation History — only once something has been liquidated */}
+      {liquidationEvents.length > 0 && (
+        <section className="mb-8">
+          <LiquidationHistory events={liquidationEvents} />
+        </section>
+      )}
+
       {/* Trade History */}
       <section>
         <div className="rounded-2xl border border-border bg-surface p-4">
@@ -2,6 +2,9 @@ import { getSession } from "@/lib/auth/session";
 import { db } from "@/lib/db";
 import { wallets } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import type { MarginMode, StpMode } from "@/lib/trading/types";
+import StpModeSelector from "@/app/components/StpModeSelector";
+import MarginModeSelector from "@/app/components/MarginModeSelector";
 
 export default async function Settings() {
   const user = await getSession();
@@ -53,6 +56,30 @@ export default async function Settings() {
           </dl>
         </div>
 
+        {/* Self-Trade Prevention */}
+        <div className="rounded-2xl border border-border bg-surface p-6">
+          <h2 className="mb-1 text-sm font-semibold uppercase tracking-[0.2em] text-gold">
+            Self-Trade Prevention
+          </h2>
+          <p className="mb-4 text-sm text-zinc-400">
+            What happens when one of your orders would trade against another of
+            yours. Orders can override this individually.
+          </p>
+          <StpModeSelector stpMode={user.stpMode as StpMode} />
+        </div>
+
+        {/* Margin Mode */}
+        <div className="rounded-2xl border border-border bg-surface p-6">
+          <h2 className="mb-1 text-sm font-semibold uppercase tracking-[0.2em] text-gold">
+            Margin Mode
+          </h2>
+          <p className="mb-4 text-sm text-zinc-400">
+            How your futures positions are margined. You can switch when you have
+            no open futures positions or orders.
+          </p>
+          <MarginModeSelector marginMode={user.marginMode as MarginMode} />
+        </div>
+
         {/* Wallet Balances */}
         <div className="rounded-2xl border border-border bg-surface p-6">
           <h2 className="mb-4 text-sm font-semibold uppercase tracking-[0.2em] text-gold">
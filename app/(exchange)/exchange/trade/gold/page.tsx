@@ -5,16 +5,22 @@ import {
   getRecentTrades,
   getUserOpenOrders,
   getUserPositions,
+  getUserTwapOrders,
 } from "@/lib/db/queries/trading";
 import { getMarkPrice } from "@/lib/services/prices";
-import { calculateUnrealizedPnl } from "@/lib/services/margin";
+import { getMarketState } from "@/lib/services/markets";
+import { getIndicativeAuction } from "@/lib/services/auction";
+import { getTwapProgress } from "@/lib/services/twap";
+import { enrichPositions } from "@/lib/services/crossmargin";
 import { PAIRS } from "@/lib/trading/constants";
 import OrderBook from "@/app/components/OrderBook";
 import TradeHistory from "@/app/components/TradeHistory";
 import TradingFormTabs from "@/app/components/TradingFormTabs";
 import OpenOrdersTable from "@/app/components/OpenOrdersTable";
+import TwapOrdersTable from "@/app/components/TwapOrdersTable";
 import PriceDisplay from "@/app/components/PriceDisplay";
 import PositionCard from "@/app/components/PositionCard";
+import MarketStatusBanner from "@/app/components/MarketStatusBanner";
 
 export default async function GoldFutures() {
   const user = await getSession();
@@ -29,6 +35,8 @@ export default async function GoldFutures() {
     recentTrades,
     openOrders,
     userPositions,
+    market,
+    twaps,
   ] = await Promise.all([
     getUserWallets(user.id),
     getMarkPrice("XAU-PERP"),
@@ -36,25 +44,16 @@ export default async function GoldFutures() {
     getRecentTrades("XAU-PERP", 20),
     getUserOpenOrders(user.id, "XAU-PERP"),
     getUserPositions(user.id, "open"),
+    getMarketState("XAU-PERP"),
+    getUserTwapOrders(user.id, { pair: "XAU-PERP" }),
   ]);
+  const indicative =
+    market.status === "auction" ? await getIndicativeAuction("XAU-PERP") : null;
 
   const xauPositions = userPositions.filter((p) => p.contract === "XAU-PERP");
 
-  // Enrich positions with PnL
-  const enrichedPositions = xauPositions.map((pos) => {
-    const unrealizedPnl = calculateUnrealizedPnl(
-      pos.side as "long" | "short",
-      pos.entryPrice,
-      markData.markPrice,
-      pos.quantity,
-      pairConfig.contractSize
-    );
-    return {
-      ...pos,
-      unrealizedPnl: unrealizedPnl.toFixed(8),
-      markPrice: markData.markPrice,
-    };
-  });
+  // Enrich positions with PnL and margin ratio
+  const { positions: enrichedPositions } = await enrichPositions(user.id, xauPositions);
 
   return (
     <div className="mx-auto max-w-6xl">
@@ -66,6 +65,13 @@ export default async function GoldFutures() {
         0.001 troy oz.
       </p>
 
+      <MarketStatusBanner
+        status={market.status}
+        reason={market.reason}
+        resumesAt={market.resumesAt}
+        indicative={indicative}
+      />
+
       {/* Price Bar */}
       <div className="mb-6">
         <PriceDisplay
@@ -113,7 +119,6 @@ export default async function GoldFutures() {
             usdcAvailable={parseFloat(usdc?.availableBalance ?? "0")}
             contractSize={pairConfig.contractSize}
             maxLeverage={pairConfig.maxLeverage}
-            initialMarginRate={pairConfig.initialMarginRate}
             currentPrice={parseFloat(markData.markPrice).toFixed(2)}
             accentColor="gold"
           />
@@ -121,7 +126,11 @@ export default async function GoldFutures() {
 
         <div className="space-y-6">
           <TradeHistory trades={recentTrades} pair="XAU-PERP" accentColor="gold" />
-          <OpenOrdersTable orders={openOrders} accentColor="gold" />
+          <OpenOrdersTable orders={openOrders} pair="XAU-PERP" accentColor="gold" />
+          <TwapOrdersTable
+            twaps={twaps.map((twap) => ({ ...twap, progress: getTwapProgress(twap) }))}
+            accentColor="gold"
+          />
         </div>
       </div>
     </div>
@@ -5,16 +5,22 @@ import {
   getRecentTrades,
   getUserOpenOrders,
   getUserPositions,
+  getUserTwapOrders,
 } from "@/lib/db/queries/trading";
 import { getMarkPrice } from "@/lib/services/prices";
-import { calculateUnrealizedPnl } from "@/lib/services/margin";
+import { getMarketState } from "@/lib/services/markets";
+import { getIndicativeAuction } from "@/lib/services/auction";
+import { getTwapProgress } from "@/lib/services/twap";
+import { enrichPositions } from "@/lib/services/crossmargin";
 import { PAIRS } from "@/lib/trading/constants";
 import OrderBook from "@/app/components/OrderBook";
 import TradeHistory from "@/app/components/TradeHistory";
 import TradingFormTabs from "@/app/components/TradingFormTabs";
 import OpenOrdersTable from "@/app/components/OpenOrdersTable";
+import TwapOrdersTable from "@/app/components/TwapOrdersTable";
 import PriceDisplay from "@/app/components/PriceDisplay";
 import PositionCard from "@/app/components/PositionCard";
+import MarketStatusBanner from "@/app/components/MarketStatusBanner";
 
 export default async function SilverFutures() {
   const user = await getSession();
@@ -29,6 +35,8 @@ export default async function SilverFutures() {
     recentTrades,
     openOrders,
     userPositions,
+    market,
+    twaps,
   ] = await Promise.all([
     getUserWallets(user.id),
     getMarkPrice("XAG-PERP"),
@@ -36,24 +44,16 @@ export default async function SilverFutures() {
     getRecentTrades("XAG-PERP", 20),
     getUserOpenOrders(user.id, "XAG-PERP"),
     getUserPositions(user.id, "open"),
+    getMarketState("XAG-PERP"),
+    getUserTwapOrders(user.id, { pair: "XAG-PERP" }),
   ]);
+  const indicative =
+    market.status === "auction" ? await getIndicativeAuction("XAG-PERP") : null;
 
   const xagPositions = userPositions.filter((p) => p.contract === "XAG-PERP");
 
-  const enrichedPositions = xagPositions.map((pos) => {
-    const unrealizedPnl = calculateUnrealizedPnl(
-      pos.side as "long" | "short",
-      pos.entryPrice,
-      markData.markPrice,
-      pos.quantity,
-      pairConfig.contractSize
-    );
-    return {
-      ...pos,
-      unrealizedPnl: unrealizedPnl.toFixed(8),
-      markPrice: markData.markPrice,
-    };
-  });
+  // Enrich positions with PnL and margin ratio
+  const { positions: enrichedPositions } = await enrichPositions(user.id, xagPositions);
 
   return (
     <div className="mx-auto max-w-6xl">
@@ -65,6 +65,13 @@ export default async function SilverFutures() {
         0.1 troy oz.
       </p>
 
+      <MarketStatusBanner
+        status={market.status}
+        reason={market.reason}
+        resumesAt={market.resumesAt}
+        indicative={indicative}
+      />
+
       <div className="mb-6">
         <PriceDisplay
           indexPrice={markData.indexPrice}
@@ -109,7 +116,6 @@ export default async function SilverFutures() {
             usdcAvailable={parseFloat(usdc?.availableBalance ?? "0")}
             contractSize={pairConfig.contractSize}
             maxLeverage={pairConfig.maxLeverage}
-            initialMarginRate={pairConfig.initialMarginRate}
             currentPrice={parseFloat(markData.markPrice).toFixed(3)}
             accentColor="silver"
           />
@@ -117,7 +123,11 @@ export default async function SilverFutures() {
 
         <div className="space-y-6">
           <TradeHistory trades={recentTrades} pair="XAG-PERP" accentColor="silver" />
-          <OpenOrdersTable orders={openOrders} accentColor="silver" />
+          <OpenOrdersTable orders={openOrders} pair="XAG-PERP" accentColor="silver" />
+          <TwapOrdersTable
+            twaps={twaps.map((twap) => ({ ...twap, progress: getTwapProgress(twap) }))}
+            accentColor="silver"
+          />
         </div>
       </div>
     </div>
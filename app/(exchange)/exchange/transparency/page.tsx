@@ -6,6 +6,8 @@ import {
   getOrderBookDepth,
   getRecentTradesAnonymized,
   getTradeCount,
+  getInsuranceFundBalances,
+  getInsuranceFundHistory,
 } from "@/lib/db/queries/transparency";
 import { getOpenInterest } from "@/lib/db/queries/trading";
 import { getIndexPrices, getMarkPrice } from "@/lib/services/prices";
@@ -34,6 +36,8 @@ export default async function Transparency() {
     recentTradesGold,
     recentTradesSilver,
     recentTradesSpot,
+    insuranceFund,
+    insuranceFundHistory,
   ] = await Promise.all([
     getTotalUserCount(),
     getTradeCount(),
@@ -54,6 +58,8 @@ export default async function Transparency() {
     getRecentTradesAnonymized("XAU-PERP", 10),
     getRecentTradesAnonymized("XAG-PERP", 10),
     getRecentTradesAnonymized("USDT-USDC", 10),
+    getInsuranceFundBalances(),
+    getInsuranceFundHistory(10),
   ]);
 
   const totalFeeRevenue = (
@@ -244,6 +250,74 @@ export default async function Transparency() {
         </div>
       </div>
 
+      {/* Insurance Fund */}
+      <div className="mb-8">
+        <h2 className="mb-4 text-sm font-semibold uppercase tracking-[0.2em] text-accent-gold">
+          Insurance Fund
+        </h2>
+        <p className="mb-4 text-sm text-zinc-500">
+          Funded by what liquidated positions leave over; covers losses that run
+          past a liquidated position&apos;s margin.
+        </p>
+        <div className="mb-4 grid gap-4 sm:grid-cols-2">
+          {(["USDT", "USDC"] as const).map((currency) => (
+            <div
+              key={currency}
+              className="rounded-2xl border border-border bg-surface p-6 text-center"
+            >
+              <p className="text-xs text-zinc-500">{currency}</p>
+              <p className="mt-2 font-mono text-lg font-semibold text-white">
+                $
+                {parseFloat(
+                  insuranceFund.find((fund) => fund.currency === currency)?.balance ?? "0"
+                ).toFixed(2)}
+              </p>
+            </div>
+          ))}
+        </div>
+        {insuranceFundHistory.length > 0 && (
+          <div className="overflow-x-auto rounded-2xl border border-border bg-surface">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-left text-xs text-zinc-500">
+                  <th className="px-4 py-3">Event</th>
+                  <th className="px-4 py-3">Amount</th>
+                  <th className="px-4 py-3">Balance</th>
+                  <th className="px-4 py-3">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {insuranceFundHistory.map((entry) => {
+                  const amount = parseFloat(entry.amount);
+                  return (
+                    <tr key={entry.id} className="border-b border-border/50">
+                      <td className="px-4 py-2 text-zinc-300">{entry.description}</td>
+                      <td
+                        className={`px-4 py-2 font-mono ${amount >= 0 ? "text-green-400" : "text-red-400"}`}
+                      >
+                        {amount >= 0 ? "+" : ""}
+                        {amount.toFixed(2)} {entry.currency}
+                      </td>
+                      <td className="px-4 py-2 font-mono text-white">
+                        {parseFloat(entry.balanceAfter).toFixed(2)}
+                      </td>
+                      <td className="px-4 py-2 text-zinc-500">
+                        {entry.createdAt.toLocaleString("en-US", {
+                          month: "short",
+                          day: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
       {/* 24h Volume Breakdown */}
       <div className="mb-8">
         <h2 className="mb-4 text-sm font-semibold uppercase tracking-[0.2em] text-accent-gold">
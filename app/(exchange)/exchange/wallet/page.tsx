@@ -15,7 +15,10 @@ const TX_TYPE_LABELS: Record<string, string> = {
   fee: "Trading Fee",
   margin_lock: "Margin Lock",
   margin_release: "Margin Release",
+  margin_add: "Margin Added",
+  margin_remove: "Margin Removed",
   liquidation: "Liquidation",
+  adl: "Auto-Deleveraged",
   funding: "Funding",
 };
 
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getMarketState } from "@/lib/services/markets";
+import { uncrossAuction } from "@/lib/services/auction";
+
+// Ends a scheduled call auction once its time is up (cron/manual).
+// Auctions without an end time are ended by an admin reopening the market.
+const auctionSchema = z.object({
+  pair: z.enum(["USDT-USDC", "XAU-PERP", "XAG-PERP"]),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { pair } = auctionSchema.parse(body);
+
+    const market = await getMarketState(pair);
+    if (market.status !== "auction") {
+      return NextResponse.json(
+        { success: false, error: `${pair} market is not in auction` },
+        { status: 400 }
+      );
+    }
+    if (!market.resumesAt || market.resumesAt > new Date()) {
+      return NextResponse.json({ success: true, uncrossed: false, market });
+    }
+
+    const result = await uncrossAuction(pair, { status: "open" });
+
+    return NextResponse.json({ success: true, uncrossed: true, ...result });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Auction uncross failed";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
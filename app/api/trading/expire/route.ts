@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { expireOrders } from "@/lib/services/orders";
+
+export async function POST() {
+  try {
+    const result = await expireOrders();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Order expiry failed";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
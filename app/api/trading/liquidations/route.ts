@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { getUserLiquidationEvents } from "@/lib/db/queries/trading";
+
+// The user's liquidation steps, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const limit = parseInt(
+      request.nextUrl.searchParams.get("limit") ?? "50",
+      10
+    );
+
+    const events = await getUserLiquidationEvents(user.id, limit);
+
+    return NextResponse.json({ success: true, events });
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch liquidation events" },
+      { status: 500 }
+    );
+  }
+}
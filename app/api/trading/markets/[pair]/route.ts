@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, isAdmin } from "@/lib/auth/session";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { PAIRS } from "@/lib/trading/constants";
+import type { PairKey } from "@/lib/trading/constants";
+import { getMarketState, setMarketStatus } from "@/lib/services/markets";
+import { getIndicativeAuction, uncrossAuction } from "@/lib/services/auction";
+
+// Admin-only: an explicit status replaces any circuit-breaker halt. An
+// auction may be given an end time for the auction sweep to uncross it at.
+const marketStatusSchema = z
+  .object({
+    status: z.enum(["open", "cancel-only", "post-only", "halted", "auction"]),
+    reason: z.string().trim().max(200).optional(),
+    endsAt: z.iso.datetime().optional(),
+  })
+  .refine((val) => !val.endsAt || val.status === "auction", "Only auctions can specify endsAt");
+
+function isPair(pair: string): pair is PairKey {
+  return pair in PAIRS;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ pair: string }> }
+) {
+  const { pair } = await params;
+  if (!isPair(pair)) {
+    return NextResponse.json(
+      { success: false, error: "Market not found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const market = await getMarketState(pair);
+    const auction =
+      market.status === "auction" ? await getIndicativeAuction(pair) : null;
+    return NextResponse.json({ success: true, market, auction });
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch market status" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ pair: string }> }
+) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { success: false, error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    const { pair } = await params;
+    if (!isPair(pair)) {
+      return NextResponse.json(
+        { success: false, error: "Market not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = marketStatusSchema.parse(body);
+
+    const change = {
+      status: parsed.status,
+      reason: parsed.reason,
+      resumesAt: parsed.endsAt ? new Date(parsed.endsAt) : null,
+      updatedBy: user.id,
+    };
+
+    // Continuous trading resumes only from an uncrossed book
+    const current = await getMarketState(pair);
+    if (
+      current.status === "auction" &&
+      (parsed.status === "open" || parsed.status === "post-only")
+    ) {
+      const result = await uncrossAuction(pair, change);
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    const market = await setMarketStatus(db, pair, change);
+    return NextResponse.json({ success: true, market, auction: null });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to update market status";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getMarketStates } from "@/lib/services/markets";
+import { getIndicativeAuction } from "@/lib/services/auction";
+
+export async function GET() {
+  try {
+    const states = await getMarketStates();
+    // Markets in auction publish their indicative price and volume
+    const markets = await Promise.all(
+      states.map(async (market) => ({
+        ...market,
+        auction:
+          market.status === "auction" ? await getIndicativeAuction(market.pair) : null,
+      }))
+    );
+    return NextResponse.json({ success: true, markets });
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch market status" },
+      { status: 500 }
+    );
+  }
+}
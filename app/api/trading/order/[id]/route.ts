@@ -1,13 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
 import { db } from "@/lib/db";
-import { orders, wallets } from "@/lib/db/schema";
-import { eq, and, sql } from "drizzle-orm";
-import { PAIRS } from "@/lib/trading/constants";
+import { orders } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { z } from "zod";
+import { amendOrder, cancelOrder } from "@/lib/services/orders";
+import { withOrderBook } from "@/lib/services/orderbook";
+import { getReferencePrice } from "@/lib/services/prices";
+import { assertMarketAllows } from "@/lib/services/markets";
+import { OrderRuleError } from "@/lib/trading/rules";
 import type { PairKey } from "@/lib/trading/constants";
-import { calculateInitialMargin } from "@/lib/services/margin";
 
-export async function DELETE(
+const positiveDecimal = (message: string) =>
+  z.string().refine((val) => {
+    const num = Number(val);
+    return val.trim() !== "" && !isNaN(num) && num > 0;
+  }, message);
+
+const amendSchema = z
+  .object({
+    price: positiveDecimal("Price must be positive").optional(),
+    quantity: positiveDecimal("Quantity must be positive").optional(),
+  })
+  .refine((val) => val.price || val.quantity, "Provide a price or quantity to amend");
+
+export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -21,8 +38,25 @@ export async function DELETE(
     }
 
     const { id } = await params;
+    const body = await request.json();
+    const changes = amendSchema.parse(body);
+
+    // The book is per pair — look the order up before taking it
+    const [existing] = await db
+      .select({ pair: orders.pair })
+      .from(orders)
+      .where(and(eq(orders.id, id), eq(orders.userId, user.id)));
+
+    if (!existing) {
+      throw new Error("Order not found");
+    }
+    await assertMarketAllows(existing.pair as PairKey, "amend");
+
+    const referencePrice = changes.price
+      ? await getReferencePrice(existing.pair as PairKey)
+      : undefined;
 
-    const result = await db.transaction(async (tx) => {
+    const result = await withOrderBook(existing.pair, async (book, tx) => {
       const [order] = await tx
         .select()
         .from(orders)
@@ -33,84 +67,72 @@ export async function DELETE(
         throw new Error("Order not found");
       }
 
-      if (order.status !== "open" && order.status !== "partial") {
-        throw new Error("Only open or partial orders can be cancelled");
-      }
+      return amendOrder(tx, book, order, changes, referencePrice);
+    });
 
-      const pairConfig = PAIRS[order.pair as PairKey];
-      const unfilledQty =
-        parseFloat(order.quantity) - parseFloat(order.filledQuantity);
-
-      // Release locked funds
-      if (pairConfig.type === "spot") {
-        if (order.side === "buy" && order.price) {
-          // Release locked USDC
-          const lockedAmount = unfilledQty * parseFloat(order.price);
-          await tx
-            .update(wallets)
-            .set({
-              availableBalance: sql`${wallets.availableBalance} + ${lockedAmount.toFixed(8)}::decimal`,
-              updatedAt: new Date(),
-            })
-            .where(
-              and(
-                eq(wallets.userId, user.id),
-                eq(wallets.currency, "USDC")
-              )
-            );
-        } else if (order.side === "sell") {
-          // Release locked USDT
-          await tx
-            .update(wallets)
-            .set({
-              availableBalance: sql`${wallets.availableBalance} + ${unfilledQty.toFixed(8)}::decimal`,
-              updatedAt: new Date(),
-            })
-            .where(
-              and(
-                eq(wallets.userId, user.id),
-                eq(wallets.currency, "USDT")
-              )
-            );
-        }
-      } else {
-        // Futures: release locked margin
-        const futuresConfig = pairConfig as typeof PAIRS["XAU-PERP"];
-        if (order.price) {
-          const marginLocked = calculateInitialMargin(
-            unfilledQty.toString(),
-            futuresConfig.contractSize,
-            order.price,
-            50 // Use max leverage for conservative estimate
-          );
-          const estFee =
-            marginLocked * 50 * parseFloat(futuresConfig.takerFeeRate);
-          const totalRelease = marginLocked + estFee;
-
-          const collateral = order.collateralCurrency || "USDT";
-          await tx
-            .update(wallets)
-            .set({
-              availableBalance: sql`${wallets.availableBalance} + ${totalRelease.toFixed(8)}::decimal`,
-              updatedAt: new Date(),
-            })
-            .where(
-              and(
-                eq(wallets.userId, user.id),
-                eq(wallets.currency, collateral)
-              )
-            );
-        }
-      }
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof OrderRuleError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code, field: error.field },
+        { status: 400 }
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Amend failed";
+    const isValidation =
+      message.includes("not found") ||
+      message.includes("can be amended") ||
+      message.includes("Provide a price") ||
+      message.includes("must be") ||
+      message.includes("Insufficient") ||
+      message.includes("Post-only") ||
+      message.includes("market is");
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: isValidation ? 400 : 500 }
+    );
+  }
+}
 
-      // Cancel the order
-      const [cancelled] = await tx
-        .update(orders)
-        .set({ status: "cancelled", updatedAt: new Date() })
-        .where(eq(orders.id, id))
-        .returning();
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // The book is per pair — look the order up before taking it
+    const [existing] = await db
+      .select({ pair: orders.pair })
+      .from(orders)
+      .where(and(eq(orders.id, id), eq(orders.userId, user.id)));
+
+    if (!existing) {
+      throw new Error("Order not found");
+    }
+    await assertMarketAllows(existing.pair as PairKey, "cancel");
+
+    const result = await withOrderBook(existing.pair, async (book, tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, id), eq(orders.userId, user.id)))
+        .for("update");
+
+      if (!order) {
+        throw new Error("Order not found");
+      }
 
-      return cancelled;
+      return cancelOrder(tx, book, order);
     });
 
     return NextResponse.json({ success: true, order: result });
@@ -118,7 +140,9 @@ export async function DELETE(
     const message =
       error instanceof Error ? error.message : "Cancel failed";
     const isValidation =
-      message.includes("not found") || message.includes("Only open");
+      message.includes("not found") ||
+      message.includes("can be cancelled") ||
+      message.includes("market is");
     return NextResponse.json(
       { success: false, error: message },
       { status: isValidation ? 400 : 500 }
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { orders } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { cancelOrder } from "@/lib/services/orders";
+import { withOrderBook } from "@/lib/services/orderbook";
+import { getOrderByClientOrderId } from "@/lib/db/queries/trading";
+import { assertMarketAllows } from "@/lib/services/markets";
+import type { PairKey } from "@/lib/trading/constants";
+
+// Look up or cancel an order by the clientOrderId it was placed with
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ clientOrderId: string }> }
+) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { clientOrderId } = await params;
+    const order = await getOrderByClientOrderId(user.id, clientOrderId);
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, order });
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch order" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ clientOrderId: string }> }
+) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { clientOrderId } = await params;
+
+    // The book is per pair — look the order up before taking it
+    const existing = await getOrderByClientOrderId(user.id, clientOrderId);
+    if (!existing) {
+      throw new Error("Order not found");
+    }
+    await assertMarketAllows(existing.pair as PairKey, "cancel");
+
+    const result = await withOrderBook(existing.pair, async (book, tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, existing.id), eq(orders.userId, user.id)))
+        .for("update");
+
+      if (!order) {
+        throw new Error("Order not found");
+      }
+
+      return cancelOrder(tx, book, order);
+    });
+
+    return NextResponse.json({ success: true, order: result });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Cancel failed";
+    const isValidation =
+      message.includes("not found") ||
+      message.includes("can be cancelled") ||
+      message.includes("market is");
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: isValidation ? 400 : 500 }
+    );
+  }
+}
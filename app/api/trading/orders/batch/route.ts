@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { withIdempotency } from "@/lib/services/idempotency";
+import { z } from "zod";
+import { withOrderBooks } from "@/lib/services/orderbook";
+import * as dec from "@/lib/trading/decimal";
+import {
+  orderRequestSchema,
+  placeOrder,
+  prepareOrderRequest,
+} from "@/lib/services/placement";
+import type { OrderRequestError, PlacedOrder } from "@/lib/services/placement";
+
+const MAX_BATCH_ORDERS = 20;
+
+// all_or_nothing places every order or none; best_effort places what it can
+const batchSchema = z.object({
+  orders: z.array(orderRequestSchema).min(1).max(MAX_BATCH_ORDERS),
+  mode: z.enum(["all_or_nothing", "best_effort"]).default("all_or_nothing"),
+});
+
+type BatchResult =
+  | ({ index: number; success: true } & PlacedOrder)
+  | ({ index: number; success: false } & OrderRequestError);
+
+export async function POST(request: NextRequest) {
+  const user = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  // A replayed Idempotency-Key gets the original response back
+  return withIdempotency(request, user.id, async () => {
+    try {
+      const body = await request.json();
+      const parsed = batchSchema.parse(body);
+      const atomic = parsed.mode === "all_or_nothing";
+
+      const prepared: Awaited<ReturnType<typeof prepareOrderRequest>>[] = [];
+      // Earlier orders count toward a later one's position limit
+      const unplaced = new Map<string, string>();
+      for (const [index, order] of parsed.orders.entries()) {
+        const sideKey = `${order.pair}:${order.side}`;
+        const result = await prepareOrderRequest(user.id, order, unplaced.get(sideKey));
+        if (atomic && "error" in result) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `Order ${index + 1}: ${result.error}`,
+              code: result.code,
+              field: result.field,
+              index,
+            },
+            { status: 400 }
+          );
+        }
+        if ("request" in result && !result.request.reduceOnly) {
+          unplaced.set(
+            sideKey,
+            dec.add(unplaced.get(sideKey) ?? "0", result.request.quantity ?? "0")
+          );
+        }
+        prepared.push(result);
+      }
+
+      const pairs = prepared.flatMap((p) => ("request" in p ? [p.request.pair] : []));
+
+      // One transaction for the whole batch. Best-effort orders each run in a
+      // savepoint, so a failed order rolls back alone.
+      const results = await withOrderBooks(pairs, async (books, tx) => {
+        const results: BatchResult[] = [];
+        for (const [index, p] of prepared.entries()) {
+          if ("error" in p) {
+            results.push({ index, success: false, ...p });
+            continue;
+          }
+          const book = books.get(p.request.pair)!;
+
+          if (atomic) {
+            try {
+              const placed = await placeOrder(tx, book, user, p.request);
+              results.push({ index, success: true, ...placed });
+            } catch (error) {
+              const message =
+                error instanceof Error ? error.message : "Order placement failed";
+              throw new Error(`Order ${index + 1}: ${message}`);
+            }
+            continue;
+          }
+
+          try {
+            const placed = await book.nested(() =>
+              tx.transaction((savepoint) =>
+                placeOrder(savepoint, book, user, p.request)
+              )
+            );
+            results.push({ index, success: true, ...placed });
+          } catch (error) {
+            results.push({
+              index,
+              success: false,
+              error: error instanceof Error ? error.message : "Order placement failed",
+            });
+          }
+        }
+        return results;
+      });
+
+      return NextResponse.json({ success: true, mode: parsed.mode, results });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Batch placement failed";
+      const isValidation =
+        message.includes("Insufficient") ||
+        message.includes("Minimum quantity") ||
+        message.includes("Post-only") ||
+        message.includes("Duplicate clientOrderId") ||
+        message.includes("market is") ||
+        message.includes("require");
+      return NextResponse.json(
+        { success: false, error: message },
+        { status: isValidation ? 400 : 500 }
+      );
+    }
+  });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
 import { getUserOrders } from "@/lib/db/queries/trading";
+import { cancelAllOrders } from "@/lib/services/orders";
 
 export async function GET(request: NextRequest) {
   try {
@@ -29,3 +30,40 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+// Cancel all open orders, optionally filtered by ?pair= and/or ?side=
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const pair = request.nextUrl.searchParams.get("pair") ?? undefined;
+    const side = request.nextUrl.searchParams.get("side") ?? undefined;
+    if (side !== undefined && side !== "buy" && side !== "sell") {
+      return NextResponse.json(
+        { success: false, error: "side must be buy or sell" },
+        { status: 400 }
+      );
+    }
+
+    const cancelled = await cancelAllOrders(user.id, { pair, side });
+
+    return NextResponse.json({
+      success: true,
+      cancelledCount: cancelled.length,
+      orders: cancelled,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to cancel orders";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: message.includes("market is") ? 400 : 500 }
+    );
+  }
+}
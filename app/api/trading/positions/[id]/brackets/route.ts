@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { db } from "@/lib/db";
+import { positions } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { z } from "zod";
+import type { FuturesPair } from "@/lib/trading/constants";
+import { getMarkPrice } from "@/lib/services/prices";
+import { validateBrackets } from "@/lib/services/positions";
+
+// null clears a level, omitting a field leaves it unchanged
+const bracketsSchema = z.object({
+  takeProfitPrice: z.string().nullable().optional(),
+  stopLossPrice: z.string().nullable().optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = bracketsSchema.parse(body);
+
+    const result = await db.transaction(async (tx) => {
+      const [pos] = await tx
+        .select()
+        .from(positions)
+        .where(
+          and(
+            eq(positions.id, id),
+            eq(positions.userId, user.id),
+            eq(positions.status, "open")
+          )
+        )
+        .for("update");
+
+      if (!pos) {
+        throw new Error("Position not found or already closed");
+      }
+
+      const takeProfitPrice =
+        parsed.takeProfitPrice === undefined
+          ? pos.takeProfitPrice
+          : parsed.takeProfitPrice;
+      const stopLossPrice =
+        parsed.stopLossPrice === undefined
+          ? pos.stopLossPrice
+          : parsed.stopLossPrice;
+
+      // Levels must sit on the right side of the current mark price
+      const markData = await getMarkPrice(pos.contract as FuturesPair);
+      const bracketError = validateBrackets(
+        pos.side as "long" | "short",
+        markData.markPrice,
+        takeProfitPrice,
+        stopLossPrice
+      );
+      if (bracketError) {
+        throw new Error(bracketError);
+      }
+
+      const [updated] = await tx
+        .update(positions)
+        .set({ takeProfitPrice, stopLossPrice, updatedAt: new Date() })
+        .where(eq(positions.id, pos.id))
+        .returning();
+
+      return updated;
+    });
+
+    return NextResponse.json({ success: true, position: result });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to update brackets";
+    const isValidation =
+      message.includes("not found") ||
+      message.includes("already closed") ||
+      message.includes("must be");
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: isValidation ? 400 : 500 }
+    );
+  }
+}
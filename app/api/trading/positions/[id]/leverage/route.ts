@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { MAX_LEVERAGE } from "@/lib/trading/constants";
+import type { FuturesPair } from "@/lib/trading/constants";
+import { getMarkPrice } from "@/lib/services/prices";
+import { changePositionLeverage, lockOpenPosition } from "@/lib/services/positions";
+
+const leverageSchema = z.object({
+  leverage: z.number().min(1).max(MAX_LEVERAGE),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { leverage } = leverageSchema.parse(body);
+
+    // Cross positions are judged on account equity, not their own margin
+    if (user.marginMode === "cross") {
+      throw new Error("Leverage can only be changed on isolated positions");
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const pos = await lockOpenPosition(tx, id, user.id);
+      if (!pos) {
+        throw new Error("Position not found or already closed");
+      }
+
+      const markData = await getMarkPrice(pos.contract as FuturesPair);
+      return changePositionLeverage(tx, pos, leverage, markData.markPrice);
+    });
+
+    return NextResponse.json({ success: true, position: result });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Leverage change failed";
+    const isValidation =
+      message.includes("not found") ||
+      message.includes("already closed") ||
+      message.includes("Insufficient") ||
+      message.includes("liquidated immediately") ||
+      message.includes("isolated positions") ||
+      message.includes("must be");
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: isValidation ? 400 : 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import type { FuturesPair } from "@/lib/trading/constants";
+import * as dec from "@/lib/trading/decimal";
+import { getMarkPrice } from "@/lib/services/prices";
+import { adjustPositionMargin, lockOpenPosition } from "@/lib/services/positions";
+
+const marginSchema = z.object({
+  action: z.enum(["add", "remove"]),
+  amount: z.string().refine((val) => {
+    const num = Number(val);
+    return val.trim() !== "" && !isNaN(num) && num > 0;
+  }, "Amount must be positive"),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action, amount } = marginSchema.parse(body);
+
+    // Cross positions draw on the whole wallet — there is nothing to move
+    if (user.marginMode === "cross") {
+      throw new Error("Margin can only be adjusted on isolated positions");
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const pos = await lockOpenPosition(tx, id, user.id);
+      if (!pos) {
+        throw new Error("Position not found or already closed");
+      }
+
+      const markData = await getMarkPrice(pos.contract as FuturesPair);
+      const change = action === "add" ? dec.normalize(amount) : dec.neg(amount);
+      return adjustPositionMargin(tx, pos, change, markData.markPrice);
+    });
+
+    return NextResponse.json({ success: true, position: result });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Margin adjustment failed";
+    const isValidation =
+      message.includes("not found") ||
+      message.includes("already closed") ||
+      message.includes("Insufficient") ||
+      message.includes("initial margin") ||
+      message.includes("isolated positions") ||
+      message.includes("must be");
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: isValidation ? 400 : 500 }
+    );
+  }
+}
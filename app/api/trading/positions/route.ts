@@ -1,14 +1,8 @@
 import { NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
 import { getUserPositions } from "@/lib/db/queries/trading";
-import { getMarkPrice } from "@/lib/services/prices";
-import {
-  calculateUnrealizedPnl,
-  calculateMaintenanceMargin,
-} from "@/lib/services/margin";
-import { PAIRS } from "@/lib/trading/constants";
-import type { FuturesPair } from "@/lib/trading/constants";
 import { applyPendingFunding } from "@/lib/services/funding";
+import { enrichPositions } from "@/lib/services/crossmargin";
 
 export async function GET() {
   try {
@@ -20,49 +14,23 @@ export async function GET() {
       );
     }
 
+    // Apply any pending funding before reading margins
+    const pending = await getUserPositions(user.id, "open");
+    await Promise.all(pending.map((pos) => applyPendingFunding(pos.id)));
     const openPositions = await getUserPositions(user.id, "open");
 
-    // Apply pending funding and enrich with live PnL
-    const enriched = await Promise.all(
-      openPositions.map(async (pos) => {
-        // Apply any pending funding
-        await applyPendingFunding(pos.id);
-
-        const contract = pos.contract as FuturesPair;
-        const pairConfig = PAIRS[contract];
-        const markData = await getMarkPrice(contract);
-
-        const unrealizedPnl = calculateUnrealizedPnl(
-          pos.side as "long" | "short",
-          pos.entryPrice,
-          markData.markPrice,
-          pos.quantity,
-          pairConfig.contractSize
-        );
-
-        const maintenanceMargin = calculateMaintenanceMargin(
-          pos.quantity,
-          pairConfig.contractSize,
-          markData.markPrice,
-          pairConfig.maintenanceMarginRate
-        );
-
-        const marginRatio =
-          maintenanceMargin > 0
-            ? (parseFloat(pos.margin) + unrealizedPnl) / maintenanceMargin
-            : Infinity;
-
-        return {
-          ...pos,
-          unrealizedPnl: unrealizedPnl.toFixed(8),
-          markPrice: markData.markPrice,
-          maintenanceMargin: maintenanceMargin.toFixed(8),
-          marginRatio: marginRatio.toFixed(4),
-        };
-      })
+    // Enrich with live PnL; cross accounts share one margin ratio
+    const { positions, marginMode, accounts } = await enrichPositions(
+      user.id,
+      openPositions
     );
 
-    return NextResponse.json({ success: true, positions: enriched });
+    return NextResponse.json({
+      success: true,
+      marginMode,
+      accounts,
+      positions,
+    });
   } catch {
     return NextResponse.json(
       { success: false, error: "Failed to fetch positions" },
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { db } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { setMarginMode } from "@/lib/services/crossmargin";
+
+// Account-wide trading defaults; individual orders can override them
+const settingsSchema = z
+  .object({
+    stpMode: z
+      .enum([
+        "cancel_newest",
+        "cancel_oldest",
+        "cancel_both",
+        "decrement_and_cancel",
+      ])
+      .optional(),
+    marginMode: z.enum(["isolated", "cross"]).optional(), // futures — only with nothing open
+  })
+  .refine((val) => val.stpMode || val.marginMode, "Provide a setting to update");
+
+export async function GET() {
+  const user = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    settings: { stpMode: user.stpMode, marginMode: user.marginMode },
+  });
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = settingsSchema.parse(body);
+
+    if (parsed.marginMode && parsed.marginMode !== user.marginMode) {
+      await setMarginMode(user.id, parsed.marginMode);
+    }
+
+    const [updated] = await db
+      .update(users)
+      .set({ ...(parsed.stpMode && { stpMode: parsed.stpMode }), updatedAt: new Date() })
+      .where(eq(users.id, user.id))
+      .returning({ stpMode: users.stpMode, marginMode: users.marginMode });
+
+    return NextResponse.json({ success: true, settings: updated });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to update settings";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { processStopOrders, processBrackets } from "@/lib/services/triggers";
+import type { FuturesPair } from "@/lib/trading/constants";
+
+const triggersSchema = z.object({
+  contract: z.enum(["XAU-PERP", "XAG-PERP"]),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { contract } = triggersSchema.parse(body);
+
+    const stops = await processStopOrders(contract as FuturesPair);
+    const brackets = await processBrackets(contract as FuturesPair);
+
+    return NextResponse.json({
+      success: true,
+      triggeredCount: stops.triggeredCount,
+      bracketsClosedCount: brackets.closedCount,
+      markPrice: brackets.markPrice,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Trigger check failed";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
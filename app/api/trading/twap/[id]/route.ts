@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { z } from "zod";
+import { getTwapChildOrders, getTwapOrder } from "@/lib/db/queries/trading";
+import { controlTwapOrder, getTwapProgress } from "@/lib/services/twap";
+
+const controlSchema = z.object({
+  action: z.enum(["pause", "resume"]),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const twap = await getTwapOrder(user.id, id);
+    if (!twap) {
+      return NextResponse.json(
+        { success: false, error: "TWAP order not found" },
+        { status: 404 }
+      );
+    }
+
+    const children = await getTwapChildOrders(twap.id);
+
+    return NextResponse.json({
+      success: true,
+      twap: { ...twap, progress: getTwapProgress(twap) },
+      children,
+    });
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch TWAP order" },
+      { status: 500 }
+    );
+  }
+}
+
+// Pause or resume
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action } = controlSchema.parse(body);
+
+    const twap = await controlTwapOrder(user.id, id, action);
+
+    return NextResponse.json({
+      success: true,
+      twap: { ...twap, progress: getTwapProgress(twap) },
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "TWAP update failed";
+    const isValidation =
+      message.includes("not found") || message.includes("cannot");
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: isValidation ? 400 : 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const twap = await controlTwapOrder(user.id, id, "cancel");
+
+    return NextResponse.json({
+      success: true,
+      twap: { ...twap, progress: getTwapProgress(twap) },
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Cancel failed";
+    const isValidation =
+      message.includes("not found") || message.includes("cannot");
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: isValidation ? 400 : 500 }
+    );
+  }
+}
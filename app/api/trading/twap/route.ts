@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { withIdempotency } from "@/lib/services/idempotency";
+import { getTwapOrder, getUserTwapOrders } from "@/lib/db/queries/trading";
+import {
+  createTwapOrder,
+  executeTwapSlice,
+  getTwapProgress,
+  twapRequestSchema,
+} from "@/lib/services/twap";
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const pair = request.nextUrl.searchParams.get("pair") ?? undefined;
+    const limit = parseInt(
+      request.nextUrl.searchParams.get("limit") ?? "20",
+      10
+    );
+
+    const twaps = await getUserTwapOrders(user.id, { pair, limit });
+
+    return NextResponse.json({
+      success: true,
+      twaps: twaps.map((twap) => ({ ...twap, progress: getTwapProgress(twap) })),
+    });
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch TWAP orders" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  return withIdempotency(request, user.id, async () => {
+    try {
+      const body = await request.json();
+      const parsed = twapRequestSchema.parse(body);
+
+      const created = await createTwapOrder(user.id, parsed);
+      if ("error" in created) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: created.error,
+            code: created.code,
+            field: created.field,
+          },
+          { status: 400 }
+        );
+      }
+
+      // The first slice goes out straight away; the sweep sends the rest
+      const slice = await executeTwapSlice(created.twap.id);
+      const twap = (await getTwapOrder(user.id, created.twap.id)) ?? created.twap;
+
+      return NextResponse.json({
+        success: true,
+        twap: { ...twap, progress: getTwapProgress(twap) },
+        slice: slice && { order: slice.order, fills: slice.fills },
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "TWAP order failed";
+      const isValidation = message.includes("require");
+      return NextResponse.json(
+        { success: false, error: message },
+        { status: isValidation ? 400 : 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { processTwapSlices } from "@/lib/services/twap";
+
+export async function POST() {
+  try {
+    const result = await processTwapSlices();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "TWAP slice sweep failed";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
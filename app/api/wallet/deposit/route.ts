@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
+import { withIdempotency } from "@/lib/services/idempotency";
 import { db } from "@/lib/db";
 import { wallets, transactions } from "@/lib/db/schema";
 import { eq, sql } from "drizzle-orm";
@@ -14,89 +15,92 @@ const depositSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
-  try {
-    const user = await getSession();
-    if (!user) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
+  const user = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
 
-    const body = await request.json();
-    const { currency, amount } = depositSchema.parse(body);
-    const depositAmount = parseFloat(amount);
+  // A replayed Idempotency-Key gets the original response back
+  return withIdempotency(request, user.id, async () => {
+    try {
+      const body = await request.json();
+      const { currency, amount } = depositSchema.parse(body);
+      const depositAmount = parseFloat(amount);
 
-    const result = await db.transaction(async (tx) => {
-      // Lock wallet rows for this user to prevent concurrent balance updates
-      const userWallets = await tx
-        .select()
-        .from(wallets)
-        .where(eq(wallets.userId, user.id))
-        .for("update");
+      const result = await db.transaction(async (tx) => {
+        // Lock wallet rows for this user to prevent concurrent balance updates
+        const userWallets = await tx
+          .select()
+          .from(wallets)
+          .where(eq(wallets.userId, user.id))
+          .for("update");
 
-      const usdtWallet = userWallets.find((w) => w.currency === "USDT");
-      const usdcWallet = userWallets.find((w) => w.currency === "USDC");
-      const targetWallet = currency === "USDT" ? usdtWallet : usdcWallet;
+        const usdtWallet = userWallets.find((w) => w.currency === "USDT");
+        const usdcWallet = userWallets.find((w) => w.currency === "USDC");
+        const targetWallet = currency === "USDT" ? usdtWallet : usdcWallet;
 
-      if (!targetWallet) {
-        throw new Error("Wallet not found");
-      }
+        if (!targetWallet) {
+          throw new Error("Wallet not found");
+        }
 
-      // Eligibility: total balance < $5
-      const totalBalance =
-        parseFloat(usdtWallet?.balance ?? "0") +
-        parseFloat(usdcWallet?.balance ?? "0");
+        // Eligibility: total balance < $5
+        const totalBalance =
+          parseFloat(usdtWallet?.balance ?? "0") +
+          parseFloat(usdcWallet?.balance ?? "0");
 
-      if (totalBalance >= 5) {
-        throw new Error(
-          `Deposits are only allowed when your total balance is below $5.00. Your current total balance is $${totalBalance.toFixed(2)}.`
-        );
-      }
+        if (totalBalance >= 5) {
+          throw new Error(
+            `Deposits are only allowed when your total balance is below $5.00. Your current total balance is $${totalBalance.toFixed(2)}.`
+          );
+        }
 
-      // Atomic balance update using SQL arithmetic on DECIMAL columns
-      const [updated] = await tx
-        .update(wallets)
-        .set({
-          balance: sql`${wallets.balance} + ${depositAmount.toFixed(8)}::decimal`,
-          availableBalance: sql`${wallets.availableBalance} + ${depositAmount.toFixed(8)}::decimal`,
-          updatedAt: new Date(),
-        })
-        .where(eq(wallets.id, targetWallet.id))
-        .returning({ balance: wallets.balance });
+        // Atomic balance update using SQL arithmetic on DECIMAL columns
+        const [updated] = await tx
+          .update(wallets)
+          .set({
+            balance: sql`${wallets.balance} + ${depositAmount.toFixed(8)}::decimal`,
+            availableBalance: sql`${wallets.availableBalance} + ${depositAmount.toFixed(8)}::decimal`,
+            updatedAt: new Date(),
+          })
+          .where(eq(wallets.id, targetWallet.id))
+          .returning({ balance: wallets.balance });
 
-      // Record transaction
-      const [txRecord] = await tx
-        .insert(transactions)
-        .values({
-          userId: user.id,
-          walletId: targetWallet.id,
-          type: "deposit",
-          currency,
-          amount: depositAmount.toFixed(8),
-          balanceAfter: updated.balance,
-          description: `Deposit ${depositAmount.toFixed(2)} ${currency}`,
-        })
-        .returning();
+        // Record transaction
+        const [txRecord] = await tx
+          .insert(transactions)
+          .values({
+            userId: user.id,
+            walletId: targetWallet.id,
+            type: "deposit",
+            currency,
+            amount: depositAmount.toFixed(8),
+            balanceAfter: updated.balance,
+            description: `Deposit ${depositAmount.toFixed(2)} ${currency}`,
+          })
+          .returning();
 
-      return txRecord;
-    });
+        return txRecord;
+      });
 
-    // Simulated blockchain confirmation delay (dev only)
-    if (process.env.NODE_ENV !== "production") {
-      await new Promise((r) => setTimeout(r, 2000));
-    }
+      // Simulated blockchain confirmation delay (dev only)
+      if (process.env.NODE_ENV !== "production") {
+        await new Promise((r) => setTimeout(r, 2000));
+      }
 
-    return NextResponse.json({ success: true, transaction: result });
-  } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Deposit failed";
-    const isValidation =
-      message.includes("Deposits are only allowed") ||
-      message.includes("Wallet not found");
-    return NextResponse.json(
-      { success: false, error: message },
-      { status: isValidation ? 400 : 500 }
-    );
-  }
+      return NextResponse.json({ success: true, transaction: result });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Deposit failed";
+      const isValidation =
+        message.includes("Deposits are only allowed") ||
+        message.includes("Wallet not found");
+      return NextResponse.json(
+        { success: false, error: message },
+        { status: isValidation ? 400 : 500 }
+      );
+    }
+  });
 }
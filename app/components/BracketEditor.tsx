@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+interface BracketEditorProps {
+  positionId: string;
+  takeProfitPrice: string | null;
+  stopLossPrice: string | null;
+  priceDecimals: number;
+}
+
+export default function BracketEditor({
+  positionId,
+  takeProfitPrice,
+  stopLossPrice,
+  priceDecimals,
+}: BracketEditorProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState(false);
+  const [tp, setTp] = useState(takeProfitPrice ?? "");
+  const [sl, setSl] = useState(stopLossPrice ?? "");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  function formatLevel(level: string | null) {
+    return level ? `$${parseFloat(level).toFixed(priceDecimals)}` : "—";
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = await fetch(`/api/trading/positions/${positionId}/brackets`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          takeProfitPrice: tp || null,
+          stopLossPrice: sl || null,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Update failed");
+
+      setEditing(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Update failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (!editing) {
+    return (
+      <div className="mt-3 flex items-center justify-between border-t border-border pt-3 text-sm">
+        <div className="flex gap-4">
+          <span className="text-zinc-500">
+            TP <span className="font-mono text-green-400">{formatLevel(takeProfitPrice)}</span>
+          </span>
+          <span className="text-zinc-500">
+            SL <span className="font-mono text-red-400">{formatLevel(stopLossPrice)}</span>
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={() => setEditing(true)}
+          className="rounded-lg border border-border px-3 py-1 text-xs font-medium text-zinc-400 transition-colors hover:text-white"
+        >
+          Edit TP/SL
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="mt-3 space-y-2 border-t border-border pt-3">
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={tp}
+          onChange={(e) => setTp(e.target.value)}
+          placeholder="Take profit"
+          className="w-full rounded-lg border border-border bg-black px-3 py-1.5 font-mono text-sm text-white placeholder-zinc-600 outline-none"
+        />
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={sl}
+          onChange={(e) => setSl(e.target.value)}
+          placeholder="Stop loss"
+          className="w-full rounded-lg border border-border bg-black px-3 py-1.5 font-mono text-sm text-white placeholder-zinc-600 outline-none"
+        />
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setEditing(false)}
+          className="rounded-lg border border-border px-3 py-1 text-xs text-zinc-400 hover:text-white"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={loading}
+          className="rounded-lg border border-green-500/30 px-3 py-1 text-xs font-medium text-green-400 transition-colors hover:bg-green-500/10 disabled:opacity-50"
+        >
+          {loading ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -24,7 +24,10 @@ export default function DepositForm() {
     try {
       const res = await fetch("/api/wallet/deposit", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
         body: JSON.stringify({ currency, amount }),
       });
 
@@ -53,7 +53,6 @@ export default function LPForm({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
-  const [progress, setProgress] = useState({ placed: 0, total: 0 });
 
   // Spot: separate amounts for each side
   const [sellAmount, setSellAmount] = useState("");
@@ -201,63 +200,50 @@ export default function LPForm({
     setError("");
     setSuccess("");
     setLoading(true);
-    setProgress({ placed: 0, total: preview.length });
-
-    let placed = 0;
-    let failed = 0;
-    let firstError = "";
-
-    for (const order of preview) {
-      try {
-        const body: Record<string, unknown> = {
-          pair,
-          side: order.side,
-          type: "limit",
-          price: order.price,
-          quantity: order.quantity,
-        };
-
-        if (pairType === "futures") {
-          body.collateralCurrency = collateral;
-          body.leverage = leverage;
-        }
-
-        const res = await fetch("/api/trading/order", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(body),
-        });
-
-        if (!res.ok) {
-          const data = await res.json();
-          throw new Error(data.error || "Order failed");
-        }
-
-        placed++;
-        setProgress({ placed, total: preview.length });
-      } catch (err) {
-        failed++;
-        if (!firstError) {
-          firstError =
-            err instanceof Error ? err.message : "Unknown error";
-        }
-      }
-    }
 
-    setLoading(false);
-
-    if (placed > 0) {
-      setSuccess(
-        `Placed ${placed} of ${preview.length} orders${failed > 0 ? ` (${failed} failed: ${firstError})` : ""}`
-      );
+    try {
+      const orders = preview.map((order) => ({
+        pair,
+        side: order.side,
+        type: "limit",
+        price: order.price,
+        quantity: order.quantity,
+        // LP orders must only ever make liquidity (zero maker fee)
+        timeInForce: "post_only",
+        // A new ladder replaces any of the user's older quotes it crosses
+        stpMode: "cancel_oldest",
+        ...(pairType === "futures" && {
+          collateralCurrency: collateral,
+          leverage,
+        }),
+      }));
+
+      // The whole ladder is placed in one transaction, or none of it is
+      const res = await fetch("/api/trading/orders/batch", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ orders, mode: "all_or_nothing" }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Orders failed");
+
+      setSuccess(`Placed ${orders.length} orders`);
       setSellAmount("");
       setBuyAmount("");
       setTotalAmount("");
       router.refresh();
-    } else {
+    } catch (err) {
       setError(
-        firstError || "All orders failed. Check your balances and try again."
+        err instanceof Error
+          ? err.message
+          : "Orders failed. Check your balances and try again."
       );
+    } finally {
+      setLoading(false);
     }
   }
 
@@ -531,7 +517,7 @@ export default function LPForm({
           className={`w-full rounded-lg bg-accent-${accentColor} px-4 py-2.5 font-semibold text-black transition-opacity hover:opacity-90 disabled:opacity-50`}
         >
           {loading
-            ? `Placing orders... (${progress.placed}/${progress.total})`
+            ? "Placing orders..."
             : `Place ${preview.length} Orders`}
         </button>
 
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+interface LeverageSliderProps {
+  positionId: string;
+  leverage: number;
+  maxLeverage: number;
+  accentColor: string;
+}
+
+export default function LeverageSlider({
+  positionId,
+  leverage,
+  maxLeverage,
+  accentColor,
+}: LeverageSliderProps) {
+  const router = useRouter();
+  const [value, setValue] = useState(leverage);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleApply() {
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = await fetch(`/api/trading/positions/${positionId}/leverage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ leverage: value }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Update failed");
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Update failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="mt-3 space-y-1.5 border-t border-border pt-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-zinc-500">
+          Leverage <span className="font-mono text-white">{value}x</span>
+        </span>
+        {value !== leverage && (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setValue(leverage)}
+              className="rounded-lg border border-border px-3 py-1 text-xs text-zinc-400 hover:text-white"
+            >
+              Reset
+            </button>
+            <button
+              type="button"
+              disabled={loading}
+              onClick={handleApply}
+              className="rounded-lg border border-green-500/30 px-3 py-1 text-xs font-medium text-green-400 transition-colors hover:bg-green-500/10 disabled:opacity-50"
+            >
+              {loading ? "Saving..." : "Apply"}
+            </button>
+          </div>
+        )}
+      </div>
+      <input
+        type="range"
+        min="1"
+        max={maxLeverage}
+        value={value}
+        onChange={(e) => setValue(parseInt(e.target.value))}
+        className={`w-full accent-accent-${accentColor}`}
+      />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
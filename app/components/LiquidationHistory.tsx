@@ -0,0 +1,84 @@
+import type { LiquidationEvent, LiquidationStep } from "@/lib/trading/types";
+
+const STEP_LABELS: Record<LiquidationStep, string> = {
+  orders_cancelled: "Orders cancelled",
+  partial: "Partial liquidation",
+  full: "Liquidated",
+  adl: "Auto-deleveraged",
+};
+
+interface LiquidationHistoryProps {
+  events: LiquidationEvent[];
+}
+
+export default function LiquidationHistory({ events }: LiquidationHistoryProps) {
+  return (
+    <div className="rounded-2xl border border-border bg-surface p-4">
+      <h2 className="mb-3 text-sm font-semibold uppercase tracking-[0.2em] text-accent-gold">
+        Liquidation History
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-border text-left text-xs text-zinc-500">
+              <th className="pb-2">Contract</th>
+              <th className="pb-2">Step</th>
+              <th className="pb-2">Price</th>
+              <th className="pb-2">Closed</th>
+              <th className="pb-2">Left</th>
+              <th className="pb-2">PnL</th>
+              <th className="pb-2">Margin Ratio</th>
+              <th className="pb-2 text-right">Date</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.map((event) => {
+              const priceDecimals = event.contract === "XAG-PERP" ? 3 : 2;
+              const pnl = parseFloat(event.realizedPnl);
+              return (
+                <tr key={event.id} className="border-b border-border/50">
+                  <td className="py-2 text-sm text-zinc-300">{event.contract}</td>
+                  <td
+                    className={`py-2 text-xs ${
+                      event.step === "full" ? "text-red-400" : "text-yellow-400"
+                    }`}
+                  >
+                    {STEP_LABELS[event.step as LiquidationStep]}
+                    {event.step === "orders_cancelled" && ` (${event.ordersCancelled})`}
+                  </td>
+                  <td className="py-2 font-mono text-sm text-white">
+                    ${parseFloat(event.price).toFixed(priceDecimals)}
+                  </td>
+                  <td className="py-2 font-mono text-sm text-zinc-300">
+                    {parseFloat(event.quantity).toFixed(2)}
+                  </td>
+                  <td className="py-2 font-mono text-sm text-zinc-300">
+                    {parseFloat(event.remainingQuantity).toFixed(2)}
+                  </td>
+                  <td
+                    className={`py-2 font-mono text-sm ${
+                      pnl >= 0 ? "text-green-400" : "text-red-400"
+                    }`}
+                  >
+                    {event.step === "orders_cancelled"
+                      ? "—"
+                      : `${pnl >= 0 ? "+" : ""}$${pnl.toFixed(4)}`}
+                  </td>
+                  <td className="py-2 font-mono text-sm text-zinc-300">
+                    {event.marginRatio ? `${parseFloat(event.marginRatio).toFixed(2)}x` : "—"}
+                  </td>
+                  <td className="py-2 text-right text-sm text-zinc-500">
+                    {event.createdAt.toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                    })}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
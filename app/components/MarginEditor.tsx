@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+interface MarginEditorProps {
+  positionId: string;
+  collateralCurrency: string;
+}
+
+export default function MarginEditor({
+  positionId,
+  collateralCurrency,
+}: MarginEditorProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState(false);
+  const [action, setAction] = useState<"add" | "remove">("add");
+  const [amount, setAmount] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = await fetch(`/api/trading/positions/${positionId}/margin`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, amount }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Update failed");
+
+      setAmount("");
+      setEditing(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Update failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (!editing) {
+    return (
+      <div className="mt-3 flex justify-end border-t border-border pt-3">
+        <button
+          type="button"
+          onClick={() => setEditing(true)}
+          className="rounded-lg border border-border px-3 py-1 text-xs font-medium text-zinc-400 transition-colors hover:text-white"
+        >
+          Adjust Margin
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="mt-3 space-y-2 border-t border-border pt-3">
+      <div className="grid grid-cols-2 gap-2">
+        {(["add", "remove"] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setAction(option)}
+            className={`rounded-lg border px-3 py-1.5 text-xs font-medium capitalize transition-colors ${
+              action === option
+                ? "border-gold bg-gold/10 text-gold"
+                : "border-border text-zinc-400 hover:text-white"
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <input
+        type="number"
+        min="0"
+        step="any"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        placeholder={`Amount (${collateralCurrency})`}
+        className="w-full rounded-lg border border-border bg-black px-3 py-1.5 font-mono text-sm text-white placeholder-zinc-600 outline-none"
+      />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setEditing(false)}
+          className="rounded-lg border border-border px-3 py-1 text-xs text-zinc-400 hover:text-white"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={loading || !amount}
+          className="rounded-lg border border-green-500/30 px-3 py-1 text-xs font-medium text-green-400 transition-colors hover:bg-green-500/10 disabled:opacity-50"
+        >
+          {loading ? "Saving..." : "Confirm"}
+        </button>
+      </div>
+    </form>
+  );
+}
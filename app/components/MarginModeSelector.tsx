@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { MarginMode } from "@/lib/trading/types";
+
+const MARGIN_MODE_OPTIONS: { value: MarginMode; label: string; description: string }[] = [
+  {
+    value: "isolated",
+    label: "Isolated",
+    description: "Each position stands on its own margin and is liquidated on its own.",
+  },
+  {
+    value: "cross",
+    label: "Cross",
+    description:
+      "Your whole collateral wallet backs every futures position; liquidation looks at total equity.",
+  },
+];
+
+interface MarginModeSelectorProps {
+  marginMode: MarginMode;
+}
+
+export default function MarginModeSelector({ marginMode }: MarginModeSelectorProps) {
+  const router = useRouter();
+  const [selected, setSelected] = useState<MarginMode>(marginMode);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleSelect(mode: MarginMode) {
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/trading/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ marginMode: mode }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Update failed");
+
+      setSelected(data.settings.marginMode);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Update failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {MARGIN_MODE_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          disabled={loading}
+          onClick={() => handleSelect(option.value)}
+          className={`w-full rounded-lg border px-4 py-2.5 text-left transition-colors disabled:opacity-50 ${
+            selected === option.value
+              ? "border-gold bg-gold/10"
+              : "border-border hover:border-zinc-600"
+          }`}
+        >
+          <div
+            className={`text-sm font-medium ${
+              selected === option.value ? "text-gold" : "text-white"
+            }`}
+          >
+            {option.label}
+          </div>
+          <div className="text-xs text-zinc-500">{option.description}</div>
+        </button>
+      ))}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import type { MarketStatus } from "@/lib/trading/types";
+
+const STATUS_DETAILS: Record<
+  Exclude<MarketStatus, "open">,
+  { label: string; description: string; className: string }
+> = {
+  "cancel-only": {
+    label: "Cancel-only",
+    description: "New orders are paused. You can still cancel open orders.",
+    className: "border-yellow-500/30 bg-yellow-500/10 text-yellow-400",
+  },
+  "post-only": {
+    label: "Post-only",
+    description: "Only limit orders that rest on the book are accepted.",
+    className: "border-yellow-500/30 bg-yellow-500/10 text-yellow-400",
+  },
+  halted: {
+    label: "Trading halted",
+    description: "Orders cannot be placed, amended or cancelled, and positions cannot be closed.",
+    className: "border-red-500/30 bg-red-500/10 text-red-400",
+  },
+  auction: {
+    label: "Auction",
+    description: "Limit orders are being collected. Nothing matches until the auction ends.",
+    className: "border-blue-500/30 bg-blue-500/10 text-blue-400",
+  },
+};
+
+interface MarketStatusBannerProps {
+  status: MarketStatus;
+  reason: string | null;
+  resumesAt: Date | null;
+  indicative?: { price: string; volume: string } | null; // auction only
+}
+
+export default function MarketStatusBanner({
+  status,
+  reason,
+  resumesAt,
+  indicative,
+}: MarketStatusBannerProps) {
+  if (status === "open") return null;
+
+  const details = STATUS_DETAILS[status];
+
+  return (
+    <div className={`mb-6 rounded-lg border px-4 py-3 text-sm ${details.className}`}>
+      <span className="font-semibold">{details.label}</span>
+      {reason && <span> — {reason}</span>}
+      <p className="mt-1 text-xs opacity-80">
+        {details.description}
+        {resumesAt &&
+          ` ${status === "auction" ? "Uncrosses" : "Reopens"} at ${resumesAt.toLocaleTimeString()}.`}
+      </p>
+      {status === "auction" && (
+        <p className="mt-1 font-mono text-xs">
+          {indicative
+            ? `Indicative price ${indicative.price} · volume ${indicative.volume}`
+            : "No indicative price yet — the book does not cross"}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -7,12 +7,14 @@ import type { AccentColor } from "@/lib/trading/constants";
 
 interface OpenOrdersTableProps {
   orders: Order[];
+  pair?: string; // scopes Cancel All to one pair
   accentColor?: AccentColor;
 }
 
-export default function OpenOrdersTable({ orders, accentColor = "gold" }: OpenOrdersTableProps) {
+export default function OpenOrdersTable({ orders, pair, accentColor = "gold" }: OpenOrdersTableProps) {
   const router = useRouter();
   const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [cancellingAll, setCancellingAll] = useState(false);
 
   async function handleCancel(orderId: string) {
     setCancellingId(orderId);
@@ -30,6 +32,23 @@ export default function OpenOrdersTable({ orders, accentColor = "gold" }: OpenOr
     }
   }
 
+  async function handleCancelAll() {
+    setCancellingAll(true);
+    try {
+      const query = pair ? `?pair=${encodeURIComponent(pair)}` : "";
+      const res = await fetch(`/api/trading/orders${query}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      router.refresh();
+    } catch (err) {
+      console.error("Cancel all failed:", err);
+    } finally {
+      setCancellingAll(false);
+    }
+  }
+
   if (orders.length === 0) {
     return (
       <div className="rounded-2xl border border-border bg-surface p-4">
@@ -45,9 +64,18 @@ export default function OpenOrdersTable({ orders, accentColor = "gold" }: OpenOr
 
   return (
     <div className="rounded-2xl border border-border bg-surface p-4">
-      <h2 className={`mb-3 text-sm font-semibold uppercase tracking-[0.2em] text-accent-${accentColor}`}>
-        Open Orders
-      </h2>
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className={`text-sm font-semibold uppercase tracking-[0.2em] text-accent-${accentColor}`}>
+          Open Orders
+        </h2>
+        <button
+          onClick={handleCancelAll}
+          disabled={cancellingAll}
+          className="rounded border border-red-500/30 px-2 py-0.5 text-xs text-red-400 transition-colors hover:bg-red-500/10 disabled:opacity-50"
+        >
+          {cancellingAll ? "Cancelling..." : "Cancel All"}
+        </button>
+      </div>
       <div className="overflow-x-auto">
         <table className="w-full">
           <thead>
@@ -55,6 +83,7 @@ export default function OpenOrdersTable({ orders, accentColor = "gold" }: OpenOr
               <th className="pb-2">Pair</th>
               <th className="pb-2">Side</th>
               <th className="pb-2">Price</th>
+              <th className="pb-2">Trigger</th>
               <th className="pb-2">Qty</th>
               <th className="pb-2">Filled</th>
               <th className="pb-2"></th>
@@ -78,6 +107,19 @@ export default function OpenOrdersTable({ orders, accentColor = "gold" }: OpenOr
                     ? `$${parseFloat(order.price).toFixed(2)}`
                     : "Market"}
                 </td>
+                <td className="py-2 font-mono text-xs text-zinc-400">
+                  {order.triggerPrice
+                    ? `$${parseFloat(order.triggerPrice).toFixed(2)}`
+                    : "—"}
+                  {order.type === "trailing_stop" && (
+                    <div className="text-[10px] text-zinc-500">
+                      trails{" "}
+                      {order.trailingAmount
+                        ? `$${parseFloat(order.trailingAmount).toFixed(2)}`
+                        : `${(parseFloat(order.trailingRate ?? "0") * 100).toFixed(2)}%`}
+                    </div>
+                  )}
+                </td>
                 <td className="py-2 font-mono text-xs text-zinc-300">
                   {parseFloat(order.quantity).toFixed(2)}
                 </td>
@@ -1,9 +1,31 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { AccentColor } from "@/lib/trading/constants";
-import { getCurrencyColor } from "@/lib/trading/constants";
+import type { AccentColor, PairKey } from "@/lib/trading/constants";
+import { PAIRS, getCurrencyColor } from "@/lib/trading/constants";
+import { getRiskTier } from "@/lib/trading/risk";
+import { checkOrderRules } from "@/lib/trading/rules";
+
+type OrderFormType = "limit" | "market" | "stop_market" | "stop_limit" | "trailing_stop";
+
+const ORDER_TYPE_LABELS: Record<OrderFormType, string> = {
+  limit: "Limit",
+  market: "Market",
+  stop_market: "Stop Market",
+  stop_limit: "Stop Limit",
+  trailing_stop: "Trailing Stop",
+};
+
+type TimeInForceOption = "gtc" | "ioc" | "fok" | "gtd" | "post_only";
+
+const TIME_IN_FORCE_LABELS: Record<TimeInForceOption, string> = {
+  gtc: "GTC",
+  ioc: "IOC",
+  fok: "FOK",
+  gtd: "GTD",
+  post_only: "Post-only",
+};
 
 interface OrderFormProps {
   pair: string;
@@ -14,7 +36,6 @@ interface OrderFormProps {
   usdcAvailable: number;
   contractSize?: string;
   maxLeverage?: number;
-  initialMarginRate?: string;
   currentPrice?: string;
   accentColor?: AccentColor;
 }
@@ -28,46 +49,113 @@ export default function OrderForm({
   usdcAvailable,
   contractSize,
   maxLeverage = 50,
-  initialMarginRate,
   currentPrice,
   accentColor = "gold",
 }: OrderFormProps) {
   const router = useRouter();
   const [side, setSide] = useState<"buy" | "sell">("buy");
-  const [orderType, setOrderType] = useState<"limit" | "market">("limit");
+  const [orderType, setOrderType] = useState<OrderFormType>("limit");
   const [price, setPrice] = useState(currentPrice ?? "");
+  const [triggerPrice, setTriggerPrice] = useState("");
+  const [takeProfitPrice, setTakeProfitPrice] = useState("");
+  const [stopLossPrice, setStopLossPrice] = useState("");
+  const [timeInForce, setTimeInForce] = useState<TimeInForceOption>("gtc");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [reduceOnly, setReduceOnly] = useState(false);
+  const [trailingMode, setTrailingMode] = useState<"amount" | "percent">("percent");
+  const [trailingValue, setTrailingValue] = useState("");
   const [quantity, setQuantity] = useState("");
+  const [displayQuantity, setDisplayQuantity] = useState("");
+  const [sizeInQuote, setSizeInQuote] = useState(false);
+  const [maxSlippage, setMaxSlippage] = useState("");
   const [collateral, setCollateral] = useState<"USDT" | "USDC">("USDT");
   const [leverage, setLeverage] = useState(10);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
+  // One Idempotency-Key per order draft, so resubmitting the same order
+  // replays the server's answer instead of placing it twice
+  const draft = useRef<{ body: string; key: string } | null>(null);
 
   const parsedPrice = parseFloat(price);
+  const parsedTrigger = parseFloat(triggerPrice);
   const parsedQty = parseFloat(quantity);
+  const hasLimitPrice = orderType === "limit" || orderType === "stop_limit";
+  const isStop = orderType === "stop_market" || orderType === "stop_limit";
+  // A trailing stop closes a position, so it is always reduce-only
+  const isTrailing = orderType === "trailing_stop";
+  const effectiveReduceOnly = reduceOnly || isTrailing;
+  const parsedTrailing = parseFloat(trailingValue);
+  // Spot market orders can be sized by the USDC to spend or receive
+  const isQuoteSized = pairType === "spot" && orderType === "market" && sizeInQuote;
+  const parsedSlippage = parseFloat(maxSlippage);
+  // Market orders never rest, so only the immediate policies apply
+  const timeInForceOptions: TimeInForceOption[] = hasLimitPrice
+    ? isStop
+      ? ["gtc", "ioc", "fok", "gtd"]
+      : ["gtc", "ioc", "fok", "gtd", "post_only"]
+    : ["ioc", "fok"];
+  const effectiveTimeInForce = timeInForceOptions.includes(timeInForce)
+    ? timeInForce
+    : timeInForceOptions[0];
+  const orderTypes: OrderFormType[] =
+    pairType === "futures"
+      ? ["limit", "market", "stop_market", "stop_limit", "trailing_stop"]
+      : ["limit", "market"];
 
   // Calculate estimated cost / margin
   let estimatedCost = 0;
   let estimatedMargin = 0;
+  let estimatedNotional = 0;
   if (!isNaN(parsedQty) && parsedQty > 0) {
     if (pairType === "spot") {
-      if (orderType === "limit" && !isNaN(parsedPrice)) {
+      if (isQuoteSized) {
+        estimatedCost = parsedQty;
+      } else if (hasLimitPrice && !isNaN(parsedPrice)) {
         estimatedCost = side === "buy" ? parsedQty * parsedPrice : parsedQty;
       }
-    } else if (contractSize && initialMarginRate) {
+    } else if (contractSize) {
       const priceForCalc =
-        orderType === "limit" && !isNaN(parsedPrice)
+        hasLimitPrice && !isNaN(parsedPrice)
           ? parsedPrice
-          : parseFloat(currentPrice ?? "0");
-      const notional = parsedQty * parseFloat(contractSize) * priceForCalc;
-      estimatedMargin = notional / leverage;
+          : isStop && !isNaN(parsedTrigger)
+            ? parsedTrigger
+            : parseFloat(currentPrice ?? "0");
+      estimatedNotional = parsedQty * parseFloat(contractSize) * priceForCalc;
+      estimatedMargin = estimatedNotional / leverage;
     }
   }
 
+  // The same instrument rules the order endpoint enforces, checked as you type
+  const ruleViolations = checkOrderRules(
+    pair as PairKey,
+    {
+      price: hasLimitPrice ? price : null,
+      triggerPrice: isStop ? triggerPrice : null,
+      takeProfitPrice: pairType === "futures" && !effectiveReduceOnly ? takeProfitPrice : null,
+      stopLossPrice: pairType === "futures" && !effectiveReduceOnly ? stopLossPrice : null,
+      quantity: isQuoteSized ? null : quantity,
+      displayQuantity: hasLimitPrice ? displayQuantity : null,
+      leverage: pairType === "futures" && !effectiveReduceOnly ? leverage : null,
+    },
+    currentPrice
+  );
+
+  // Larger orders fall into risk tiers with less leverage and more maintenance margin
+  const pairConfig = PAIRS[pair as PairKey];
+  const riskTier =
+    pairConfig.type === "futures" ? getRiskTier(pairConfig.riskTiers, estimatedNotional) : null;
+
   const isValid =
     !isNaN(parsedQty) &&
-    parsedQty >= parseFloat(minQuantity) &&
-    (orderType === "market" || (!isNaN(parsedPrice) && parsedPrice > 0));
+    parsedQty > 0 &&
+    ruleViolations.length === 0 &&
+    (maxSlippage === "" || (parsedSlippage > 0 && parsedSlippage < 100)) &&
+    (!hasLimitPrice || (!isNaN(parsedPrice) && parsedPrice > 0)) &&
+    (!isStop || (!isNaN(parsedTrigger) && parsedTrigger > 0)) &&
+    (!isTrailing ||
+      (parsedTrailing > 0 && (trailingMode === "amount" || parsedTrailing < 100))) &&
+    (effectiveTimeInForce !== "gtd" || expiresAt !== "");
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -80,23 +168,67 @@ export default function OrderForm({
         pair,
         side,
         type: orderType,
-        quantity,
       };
 
-      if (orderType === "limit") {
+      if (isQuoteSized) {
+        body.quoteQuantity = quantity;
+      } else {
+        body.quantity = quantity;
+      }
+
+      if (!hasLimitPrice && maxSlippage) {
+        body.maxSlippage = parsedSlippage / 100;
+      }
+
+      if (hasLimitPrice) {
         body.price = price;
+        if (displayQuantity) body.displayQuantity = displayQuantity;
+      }
+
+      if (isStop) {
+        body.triggerPrice = triggerPrice;
+      }
+
+      if (isTrailing) {
+        if (trailingMode === "amount") {
+          body.trailingAmount = trailingValue;
+        } else {
+          body.trailingRate = parsedTrailing / 100;
+        }
+      }
+
+      body.timeInForce = effectiveTimeInForce;
+      if (effectiveTimeInForce === "gtd") {
+        body.expiresAt = new Date(expiresAt).toISOString();
       }
 
       if (pairType === "futures") {
         body.collateralCurrency = collateral;
         body.leverage = leverage;
+        if (effectiveReduceOnly) {
+          body.reduceOnly = true;
+        } else {
+          if (takeProfitPrice) body.takeProfitPrice = takeProfitPrice;
+          if (stopLossPrice) body.stopLossPrice = stopLossPrice;
+        }
+      }
+
+      const payload = JSON.stringify(body);
+      if (draft.current?.body !== payload) {
+        draft.current = { body: payload, key: crypto.randomUUID() };
       }
 
       const res = await fetch("/api/trading/order", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(body),
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": draft.current.key,
+        },
+        body: payload,
       });
+      // Answered — the next submission is a new draft, unless this one is
+      // still being worked on
+      if (res.status !== 409) draft.current = null;
 
       const data = await res.json();
       if (!res.ok) throw new Error(data.error || "Order failed");
@@ -105,9 +237,16 @@ export default function OrderForm({
       setSuccess(
         fills > 0
           ? `Order ${data.order.status} — ${fills} fill(s)`
-          : `Limit order placed (${data.order.status})`
+          : isStop
+            ? `Stop order placed — triggers at $${triggerPrice}`
+            : isTrailing
+              ? `Trailing stop placed — triggers at $${parseFloat(data.order.triggerPrice).toFixed(2)} for now`
+              : `Limit order placed (${data.order.status})`
       );
       setQuantity("");
+      setDisplayQuantity("");
+      setTakeProfitPrice("");
+      setStopLossPrice("");
       router.refresh();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Order failed");
@@ -143,26 +282,82 @@ export default function OrderForm({
           ))}
         </div>
 
-        {/* Limit / Market Toggle */}
-        <div className="flex gap-2">
-          {(["limit", "market"] as const).map((t) => (
+        {/* Order Type Toggle */}
+        <div className="flex flex-wrap gap-2">
+          {orderTypes.map((t) => (
             <button
               key={t}
               type="button"
               onClick={() => setOrderType(t)}
-              className={`rounded-lg border px-4 py-2 text-sm font-medium capitalize transition-colors ${
+              className={`rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
                 orderType === t
                   ? `border-accent-${accentColor} bg-accent-${accentColor}/10 text-accent-${accentColor}`
                   : "border-border text-zinc-400 hover:text-white"
               }`}
             >
-              {t}
+              {ORDER_TYPE_LABELS[t]}
             </button>
           ))}
         </div>
 
+        {/* Trigger Price Input (stop orders) */}
+        {isStop && (
+          <div>
+            <label className="mb-1.5 block text-sm text-zinc-400">
+              Trigger Price (mark)
+            </label>
+            <input
+              type="number"
+              step={tickSize}
+              min="0"
+              value={triggerPrice}
+              onChange={(e) => setTriggerPrice(e.target.value)}
+              placeholder="0.00"
+              className={`w-full rounded-lg border border-border bg-black px-4 py-2.5 font-mono text-white placeholder-zinc-600 outline-none transition-colors focus:border-accent-${accentColor}/50`}
+            />
+          </div>
+        )}
+
+        {/* Trailing Distance (trailing stops) */}
+        {isTrailing && (
+          <div>
+            <div className="mb-1.5 flex items-center justify-between">
+              <label className="text-sm text-zinc-400">Trail Behind Best Mark</label>
+              <div className="flex gap-1">
+                {(["percent", "amount"] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setTrailingMode(mode)}
+                    className={`rounded px-2 py-0.5 text-xs transition-colors ${
+                      trailingMode === mode
+                        ? `bg-accent-${accentColor}/10 text-accent-${accentColor}`
+                        : "text-zinc-500 hover:text-white"
+                    }`}
+                  >
+                    {mode === "percent" ? "%" : "$"}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <input
+              type="number"
+              step={trailingMode === "percent" ? "0.1" : tickSize}
+              min="0"
+              value={trailingValue}
+              onChange={(e) => setTrailingValue(e.target.value)}
+              placeholder={trailingMode === "percent" ? "e.g. 2" : "0.00"}
+              className={`w-full rounded-lg border border-border bg-black px-4 py-2.5 font-mono text-white placeholder-zinc-600 outline-none transition-colors focus:border-accent-${accentColor}/50`}
+            />
+            <p className="mt-1 text-xs text-zinc-500">
+              Closes your {side === "sell" ? "long" : "short"} at market once the mark
+              moves this far back from its {side === "sell" ? "high" : "low"}.
+            </p>
+          </div>
+        )}
+
         {/* Price Input */}
-        {orderType === "limit" ? (
+        {hasLimitPrice ? (
           <div>
             <label className="mb-1.5 block text-sm text-zinc-400">Price</label>
             <input
@@ -176,20 +371,85 @@ export default function OrderForm({
             />
           </div>
         ) : (
-          <div className="rounded-lg border border-border bg-black px-4 py-2.5 text-sm text-zinc-500">
-            Market Price
+          <div>
+            <label className="mb-1.5 block text-sm text-zinc-400">
+              Max Slippage (%)
+            </label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              max="99"
+              value={maxSlippage}
+              onChange={(e) => setMaxSlippage(e.target.value)}
+              placeholder="Market price — no limit"
+              className={`w-full rounded-lg border border-border bg-black px-4 py-2.5 font-mono text-white placeholder-zinc-600 outline-none transition-colors focus:border-accent-${accentColor}/50`}
+            />
           </div>
         )}
 
-        {/* Quantity Input */}
+        {/* Time in Force */}
         <div>
           <label className="mb-1.5 block text-sm text-zinc-400">
-            Quantity (min {minQuantity})
+            Time in Force
           </label>
+          <div className="flex flex-wrap gap-2">
+            {timeInForceOptions.map((tif) => (
+              <button
+                key={tif}
+                type="button"
+                onClick={() => setTimeInForce(tif)}
+                className={`rounded-lg border px-3 py-1.5 text-xs font-medium transition-colors ${
+                  effectiveTimeInForce === tif
+                    ? `border-accent-${accentColor} bg-accent-${accentColor}/10 text-accent-${accentColor}`
+                    : "border-border text-zinc-400 hover:text-white"
+                }`}
+              >
+                {TIME_IN_FORCE_LABELS[tif]}
+              </button>
+            ))}
+          </div>
+          {effectiveTimeInForce === "gtd" && (
+            <input
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className={`mt-2 w-full rounded-lg border border-border bg-black px-4 py-2.5 font-mono text-sm text-white outline-none transition-colors focus:border-accent-${accentColor}/50`}
+            />
+          )}
+        </div>
+
+        {/* Quantity Input */}
+        <div>
+          <div className="mb-1.5 flex items-center justify-between">
+            <label className="text-sm text-zinc-400">
+              {isQuoteSized
+                ? `Amount to ${side === "buy" ? "spend" : "receive"} (USDC)`
+                : `Quantity (min ${minQuantity})`}
+            </label>
+            {pairType === "spot" && orderType === "market" && (
+              <div className="flex gap-1">
+                {(["USDT", "USDC"] as const).map((unit) => (
+                  <button
+                    key={unit}
+                    type="button"
+                    onClick={() => setSizeInQuote(unit === "USDC")}
+                    className={`rounded border px-2 py-0.5 text-xs font-medium transition-colors ${
+                      sizeInQuote === (unit === "USDC")
+                        ? `border-accent-${accentColor} text-accent-${accentColor}`
+                        : "border-border text-zinc-500 hover:text-white"
+                    }`}
+                  >
+                    {unit}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           <input
             type="number"
-            step={minQuantity}
-            min={minQuantity}
+            step={isQuoteSized ? "0.01" : minQuantity}
+            min={isQuoteSized ? "0" : minQuantity}
             value={quantity}
             onChange={(e) => setQuantity(e.target.value)}
             placeholder="0"
@@ -197,6 +457,24 @@ export default function OrderForm({
           />
         </div>
 
+        {/* Iceberg: show only a slice of a resting limit order */}
+        {hasLimitPrice && (
+          <div>
+            <label className="mb-1.5 block text-sm text-zinc-400">
+              Display Quantity (iceberg)
+            </label>
+            <input
+              type="number"
+              step={minQuantity}
+              min={minQuantity}
+              value={displayQuantity}
+              onChange={(e) => setDisplayQuantity(e.target.value)}
+              placeholder="Optional — show the full quantity"
+              className={`w-full rounded-lg border border-border bg-black px-4 py-2.5 font-mono text-white placeholder-zinc-600 outline-none transition-colors focus:border-accent-${accentColor}/50`}
+            />
+          </div>
+        )}
+
         {/* Futures-specific: Collateral & Leverage */}
         {pairType === "futures" && (
           <>
@@ -241,7 +519,57 @@ export default function OrderForm({
                 <span>1x</span>
                 <span>{maxLeverage}x</span>
               </div>
+              {riskTier && (
+                <p className="mt-1 text-xs text-zinc-500">
+                  Up to {riskTier.maxLeverage}x at this size · maintenance margin{" "}
+                  {(parseFloat(riskTier.maintenanceMarginRate) * 100).toFixed(1)}%
+                </p>
+              )}
             </div>
+
+            <label className="flex items-center gap-2 text-sm text-zinc-400">
+              <input
+                type="checkbox"
+                checked={effectiveReduceOnly}
+                disabled={isTrailing}
+                onChange={(e) => setReduceOnly(e.target.checked)}
+                className={`accent-accent-${accentColor}`}
+              />
+              Reduce-only (close position only, no margin locked)
+            </label>
+
+            {!effectiveReduceOnly && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="mb-1.5 block text-sm text-zinc-400">
+                    Take Profit
+                  </label>
+                  <input
+                    type="number"
+                    step={tickSize}
+                    min="0"
+                    value={takeProfitPrice}
+                    onChange={(e) => setTakeProfitPrice(e.target.value)}
+                    placeholder="Optional"
+                    className={`w-full rounded-lg border border-border bg-black px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 outline-none transition-colors focus:border-accent-${accentColor}/50`}
+                  />
+                </div>
+                <div>
+                  <label className="mb-1.5 block text-sm text-zinc-400">
+                    Stop Loss
+                  </label>
+                  <input
+                    type="number"
+                    step={tickSize}
+                    min="0"
+                    value={stopLossPrice}
+                    onChange={(e) => setStopLossPrice(e.target.value)}
+                    placeholder="Optional"
+                    className={`w-full rounded-lg border border-border bg-black px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 outline-none transition-colors focus:border-accent-${accentColor}/50`}
+                  />
+                </div>
+              </div>
+            )}
           </>
         )}
 
@@ -253,7 +581,13 @@ export default function OrderForm({
                 <>
                   <div className="flex justify-between">
                     <dt className="text-zinc-400">
-                      {side === "buy" ? "Cost (USDC)" : "Sell (USDT)"}
+                      {isQuoteSized
+                        ? side === "buy"
+                          ? "Spend (USDC)"
+                          : "Receive (USDC)"
+                        : side === "buy"
+                          ? "Cost (USDC)"
+                          : "Sell (USDT)"}
                     </dt>
                     <dd className="font-mono text-white">
                       ${estimatedCost.toFixed(2)}
@@ -294,6 +628,13 @@ export default function OrderForm({
           </div>
         )}
 
+        {ruleViolations.length > 0 && (
+          <ul className="space-y-1 rounded-lg border border-yellow-500/30 bg-yellow-500/10 px-4 py-3 text-xs text-yellow-400">
+            {ruleViolations.map((violation) => (
+              <li key={`${violation.code}-${violation.field}`}>{violation.message}</li>
+            ))}
+          </ul>
+        )}
         {error && (
           <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-400">
             {error}
@@ -316,7 +657,7 @@ export default function OrderForm({
         >
           {loading
             ? "Placing order..."
-            : `${side === "buy" ? "Buy" : "Sell"} ${orderType === "limit" ? "Limit" : "Market"}`}
+            : `${side === "buy" ? "Buy" : "Sell"} ${ORDER_TYPE_LABELS[orderType]}`}
         </button>
       </form>
     </div>
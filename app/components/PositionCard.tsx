@@ -1,4 +1,9 @@
-import { getAccentColor } from "@/lib/trading/constants";
+import { ADL_RANK_LEVELS, PAIRS, getAccentColor } from "@/lib/trading/constants";
+import type { FuturesPair } from "@/lib/trading/constants";
+import { getRiskTier } from "@/lib/trading/risk";
+import BracketEditor from "./BracketEditor";
+import LeverageSlider from "./LeverageSlider";
+import MarginEditor from "./MarginEditor";
 
 interface PositionCardProps {
   position: {
@@ -12,9 +17,13 @@ interface PositionCardProps {
     leverage: string;
     liquidationPrice: string;
     realizedPnl: string;
+    takeProfitPrice?: string | null;
+    stopLossPrice?: string | null;
     unrealizedPnl?: string;
     markPrice?: string;
-    marginRatio?: string;
+    marginRatio?: string; // the account's shared ratio in cross mode
+    marginMode?: string;
+    adlRank?: number;
   };
   showCloseButton?: boolean;
 }
@@ -28,6 +37,15 @@ export default function PositionCard({
   const isProfitable = unrealizedPnl >= 0;
   const priceDecimals = position.contract === "XAG-PERP" ? 3 : 2;
   const accentColor = getAccentColor(position.contract);
+  const isCross = position.marginMode === "cross";
+  const marginRatio = position.marginRatio ? parseFloat(position.marginRatio) : null;
+  const adlRank = position.adlRank;
+  const pairConfig = PAIRS[position.contract as FuturesPair];
+  // Re-levering is capped by the tier the position's entry notional falls in
+  const riskTier = getRiskTier(
+    pairConfig.riskTiers,
+    parseFloat(position.quantity) * parseFloat(pairConfig.contractSize) * parseFloat(position.entryPrice)
+  );
 
   return (
     <div className="rounded-2xl border border-border bg-surface p-5">
@@ -46,7 +64,7 @@ export default function PositionCard({
             {position.contract}
           </span>
           <span className="text-xs text-zinc-500">
-            {parseFloat(position.leverage).toFixed(0)}x
+            {parseFloat(position.leverage).toFixed(0)}x{isCross && " · cross"}
           </span>
         </div>
         {showCloseButton && (
@@ -90,12 +108,76 @@ export default function PositionCard({
           </dd>
         </div>
         <div>
-          <dt className="text-zinc-500">Liq. Price</dt>
+          <dt className="text-zinc-500">{isCross ? "Liq. Price (account)" : "Liq. Price"}</dt>
+          {/* Cross: where the account as a whole would be liquidated, other positions held at their marks */}
           <dd className="font-mono text-red-400">
             ${parseFloat(position.liquidationPrice).toFixed(priceDecimals)}
           </dd>
         </div>
+        {marginRatio !== null && (
+          <div>
+            <dt className="text-zinc-500">
+              {isCross ? `Shared Margin Ratio (${position.collateralCurrency})` : "Margin Ratio"}
+            </dt>
+            <dd
+              className={`font-mono ${
+                marginRatio < 1.2
+                  ? "text-red-400"
+                  : marginRatio < 2
+                    ? "text-yellow-400"
+                    : "text-white"
+              }`}
+            >
+              {Number.isFinite(marginRatio) ? `${marginRatio.toFixed(2)}x` : "—"}
+            </dd>
+          </div>
+        )}
+        {adlRank !== undefined && (
+          <div>
+            <dt className="text-zinc-500">ADL Rank</dt>
+            {/* More bars — sooner reduced if an opposing liquidation needs auto-deleveraging */}
+            <dd
+              className="flex h-5 items-center gap-0.5"
+              title={`${adlRank} of ${ADL_RANK_LEVELS}`}
+            >
+              {Array.from({ length: ADL_RANK_LEVELS }, (_, level) => (
+                <span
+                  key={level}
+                  className={`h-3 w-1.5 rounded-sm ${
+                    level >= adlRank
+                      ? "bg-zinc-700"
+                      : adlRank >= ADL_RANK_LEVELS - 1
+                        ? "bg-red-400"
+                        : "bg-yellow-400"
+                  }`}
+                />
+              ))}
+            </dd>
+          </div>
+        )}
       </dl>
+
+      <BracketEditor
+        positionId={position.id}
+        takeProfitPrice={position.takeProfitPrice ?? null}
+        stopLossPrice={position.stopLossPrice ?? null}
+        priceDecimals={priceDecimals}
+      />
+
+      {!isCross && (
+        <>
+          <LeverageSlider
+            positionId={position.id}
+            leverage={Math.round(parseFloat(position.leverage))}
+            maxLeverage={riskTier.maxLeverage}
+            accentColor={accentColor}
+          />
+          <MarginEditor
+            positionId={position.id}
+            collateralCurrency={position.collateralCurrency}
+          />
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { StpMode } from "@/lib/trading/types";
+
+const STP_MODE_OPTIONS: { value: StpMode; label: string; description: string }[] = [
+  {
+    value: "cancel_newest",
+    label: "Cancel newest",
+    description: "The incoming order is cancelled; your resting order stays.",
+  },
+  {
+    value: "cancel_oldest",
+    label: "Cancel oldest",
+    description: "Your resting order is cancelled; the incoming order continues.",
+  },
+  {
+    value: "cancel_both",
+    label: "Cancel both",
+    description: "Both orders are cancelled.",
+  },
+  {
+    value: "decrement_and_cancel",
+    label: "Decrement and cancel",
+    description: "Both shrink by the overlap; the smaller one is cancelled.",
+  },
+];
+
+interface StpModeSelectorProps {
+  stpMode: StpMode;
+}
+
+export default function StpModeSelector({ stpMode }: StpModeSelectorProps) {
+  const router = useRouter();
+  const [selected, setSelected] = useState<StpMode>(stpMode);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleSelect(mode: StpMode) {
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/trading/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stpMode: mode }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Update failed");
+
+      setSelected(data.settings.stpMode);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Update failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {STP_MODE_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          disabled={loading}
+          onClick={() => handleSelect(option.value)}
+          className={`w-full rounded-lg border px-4 py-2.5 text-left transition-colors disabled:opacity-50 ${
+            selected === option.value
+              ? "border-gold bg-gold/10"
+              : "border-border hover:border-zinc-600"
+          }`}
+        >
+          <div
+            className={`text-sm font-medium ${
+              selected === option.value ? "text-gold" : "text-white"
+            }`}
+          >
+            {option.label}
+          </div>
+          <div className="text-xs text-zinc-500">{option.description}</div>
+        </button>
+      ))}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -34,6 +34,11 @@ export default function TradeHistory({ trades, pair, accentColor = "gold" }: Tra
             >
               <span className="font-mono text-zinc-300">
                 {parseFloat(trade.price).toFixed(priceDecimals)}
+                {trade.auction && (
+                  <span className="ml-1 text-[10px] text-blue-400" title="Auction fill">
+                    A
+                  </span>
+                )}
               </span>
               <span className="font-mono text-zinc-400">
                 {parseFloat(trade.quantity).toFixed(2)}
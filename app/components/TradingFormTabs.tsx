@@ -3,6 +3,7 @@
 import { useState } from "react";
 import OrderForm from "./OrderForm";
 import LPForm from "./LPForm";
+import TwapForm from "./TwapForm";
 import type { AccentColor } from "@/lib/trading/constants";
 
 interface TradingFormTabsProps {
@@ -15,12 +16,11 @@ interface TradingFormTabsProps {
   currentPrice: string;
   contractSize?: string;
   maxLeverage?: number;
-  initialMarginRate?: string;
   accentColor?: AccentColor;
 }
 
 export default function TradingFormTabs(props: TradingFormTabsProps) {
-  const [tab, setTab] = useState<"trade" | "lp">("trade");
+  const [tab, setTab] = useState<"trade" | "twap" | "lp">("trade");
   const accentColor = props.accentColor ?? "gold";
 
   return (
@@ -29,6 +29,7 @@ export default function TradingFormTabs(props: TradingFormTabsProps) {
         {(
           [
             { key: "trade", label: "Trade" },
+            { key: "twap", label: "TWAP" },
             { key: "lp", label: "Provide Liquidity" },
           ] as const
         ).map(({ key, label }) => (
@@ -48,6 +49,8 @@ export default function TradingFormTabs(props: TradingFormTabsProps) {
 
       {tab === "trade" ? (
         <OrderForm {...props} accentColor={accentColor} />
+      ) : tab === "twap" ? (
+        <TwapForm {...props} accentColor={accentColor} />
       ) : (
         <LPForm {...props} accentColor={accentColor} />
       )}
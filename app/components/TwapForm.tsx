@@ -0,0 +1,284 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { AccentColor } from "@/lib/trading/constants";
+import { getCurrencyColor } from "@/lib/trading/constants";
+
+interface TwapFormProps {
+  pair: string;
+  pairType: "spot" | "futures";
+  minQuantity: string;
+  tickSize: string;
+  maxLeverage?: number;
+  currentPrice?: string;
+  accentColor?: AccentColor;
+}
+
+export default function TwapForm({
+  pair,
+  pairType,
+  minQuantity,
+  tickSize,
+  maxLeverage = 50,
+  currentPrice,
+  accentColor = "gold",
+}: TwapFormProps) {
+  const router = useRouter();
+  const [side, setSide] = useState<"buy" | "sell">("buy");
+  const [childType, setChildType] = useState<"market" | "limit">("market");
+  const [price, setPrice] = useState(currentPrice ?? "");
+  const [quantity, setQuantity] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState("30");
+  const [sliceCount, setSliceCount] = useState("");
+  const [collateral, setCollateral] = useState<"USDT" | "USDC">("USDT");
+  const [leverage, setLeverage] = useState(10);
+  const [reduceOnly, setReduceOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const parsedQty = parseFloat(quantity);
+  const parsedPrice = parseFloat(price);
+  const parsedDuration = parseInt(durationMinutes, 10);
+  // The server defaults to one slice a minute
+  const slices = sliceCount
+    ? parseInt(sliceCount, 10)
+    : Math.max(2, Math.min(parsedDuration || 0, 100));
+
+  const isValid =
+    !isNaN(parsedQty) &&
+    parsedQty > 0 &&
+    parsedDuration > 0 &&
+    slices >= 2 &&
+    (childType === "market" || (!isNaN(parsedPrice) && parsedPrice > 0));
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+    setLoading(true);
+
+    try {
+      const body: Record<string, unknown> = {
+        pair,
+        side,
+        childType,
+        quantity,
+        durationMinutes: parsedDuration,
+      };
+      if (sliceCount) body.sliceCount = slices;
+      if (childType === "limit") body.price = price;
+      if (pairType === "futures") {
+        body.collateralCurrency = collateral;
+        body.leverage = leverage;
+        if (reduceOnly) body.reduceOnly = true;
+      }
+
+      const res = await fetch("/api/trading/twap", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify(body),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "TWAP order failed");
+
+      setSuccess(
+        data.twap.status === "paused"
+          ? `TWAP paused after its first slice — ${data.twap.lastError}`
+          : `TWAP started — ${data.twap.sliceCount} slices over ${parsedDuration} min`
+      );
+      setQuantity("");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "TWAP order failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const inputClassName = `w-full rounded-lg border border-border bg-black px-4 py-2.5 font-mono text-white placeholder-zinc-600 outline-none transition-colors focus:border-accent-${accentColor}/50`;
+
+  return (
+    <div className="rounded-2xl border border-border bg-surface p-6">
+      <h2 className={`mb-4 text-sm font-semibold uppercase tracking-[0.2em] text-accent-${accentColor}`}>
+        TWAP Order
+      </h2>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex gap-2">
+          {(["buy", "sell"] as const).map((s) => (
+            <button
+              key={s}
+              type="button"
+              onClick={() => setSide(s)}
+              className={`flex-1 rounded-lg border px-4 py-2 text-sm font-semibold uppercase transition-colors ${
+                side === s
+                  ? s === "buy"
+                    ? "border-green-500 bg-green-500/10 text-green-400"
+                    : "border-red-500 bg-red-500/10 text-red-400"
+                  : "border-border text-zinc-400 hover:text-white"
+              }`}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+
+        {/* Slice type */}
+        <div className="flex gap-2">
+          {(["market", "limit"] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setChildType(t)}
+              className={`rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
+                childType === t
+                  ? `border-accent-${accentColor} bg-accent-${accentColor}/10 text-accent-${accentColor}`
+                  : "border-border text-zinc-400 hover:text-white"
+              }`}
+            >
+              {t === "market" ? "Market Slices" : "Limit Slices"}
+            </button>
+          ))}
+        </div>
+
+        {childType === "limit" && (
+          <div>
+            <label className="mb-1.5 block text-sm text-zinc-400">Limit Price</label>
+            <input
+              type="number"
+              step={tickSize}
+              min="0"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="0.00"
+              className={inputClassName}
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="mb-1.5 block text-sm text-zinc-400">Total Quantity</label>
+          <input
+            type="number"
+            step={minQuantity}
+            min={minQuantity}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            placeholder="0"
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="mb-1.5 block text-sm text-zinc-400">Duration (min)</label>
+            <input
+              type="number"
+              step="1"
+              min="1"
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="mb-1.5 block text-sm text-zinc-400">Slices</label>
+            <input
+              type="number"
+              step="1"
+              min="2"
+              max="100"
+              value={sliceCount}
+              onChange={(e) => setSliceCount(e.target.value)}
+              placeholder="1 per min"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        {pairType === "futures" && (
+          <>
+            <div className="flex gap-2">
+              {(["USDT", "USDC"] as const).map((c) => {
+                const currencyColor = getCurrencyColor(c);
+                return (
+                  <button
+                    key={c}
+                    type="button"
+                    onClick={() => setCollateral(c)}
+                    className={`rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
+                      collateral === c
+                        ? `border-accent-${currencyColor} bg-accent-${currencyColor}/10 text-accent-${currencyColor}`
+                        : "border-border text-zinc-400 hover:text-white"
+                    }`}
+                  >
+                    {c}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div>
+              <label className="mb-1.5 block text-sm text-zinc-400">
+                Leverage: {leverage}x
+              </label>
+              <input
+                type="range"
+                min="1"
+                max={maxLeverage}
+                value={leverage}
+                onChange={(e) => setLeverage(parseInt(e.target.value))}
+                className={`w-full accent-accent-${accentColor}`}
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-zinc-400">
+              <input
+                type="checkbox"
+                checked={reduceOnly}
+                onChange={(e) => setReduceOnly(e.target.checked)}
+                className={`accent-accent-${accentColor}`}
+              />
+              Reduce-only
+            </label>
+          </>
+        )}
+
+        {isValid && (
+          <p className="text-xs text-zinc-500">
+            About {(parsedQty / slices).toFixed(4)} every{" "}
+            {Math.floor((parsedDuration * 60) / slices)}s as an IOC{" "}
+            {childType} order. Anything a slice leaves unfilled rolls into the next.
+          </p>
+        )}
+
+        {error && (
+          <div className="rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="rounded-lg border border-green-500/30 bg-green-500/10 px-4 py-3 text-sm text-green-400">
+            {success}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={loading || !isValid}
+          className={`w-full rounded-lg px-4 py-2.5 font-semibold transition-opacity hover:opacity-90 disabled:opacity-50 ${
+            side === "buy" ? "bg-green-500 text-black" : "bg-red-500 text-white"
+          }`}
+        >
+          {loading ? "Starting TWAP..." : `${side === "buy" ? "Buy" : "Sell"} TWAP`}
+        </button>
+      </form>
+    </div>
+  );
+}
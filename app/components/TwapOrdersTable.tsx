@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { TwapOrder } from "@/lib/trading/types";
+import type { TwapProgress } from "@/lib/services/twap";
+import type { AccentColor } from "@/lib/trading/constants";
+
+interface TwapOrdersTableProps {
+  twaps: (TwapOrder & { progress: TwapProgress })[];
+  accentColor?: AccentColor;
+}
+
+const STATUS_CLASSES: Record<string, string> = {
+  active: "text-green-400",
+  paused: "text-yellow-400",
+  completed: "text-zinc-400",
+  partially_filled: "text-zinc-400",
+  cancelled: "text-zinc-500",
+};
+
+export default function TwapOrdersTable({ twaps, accentColor = "gold" }: TwapOrdersTableProps) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  async function handleAction(id: string, action: "pause" | "resume" | "cancel") {
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/trading/twap/${id}`, {
+        method: action === "cancel" ? "DELETE" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: action === "cancel" ? undefined : JSON.stringify({ action }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      router.refresh();
+    } catch (err) {
+      console.error(`TWAP ${action} failed:`, err);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (twaps.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl border border-border bg-surface p-4">
+      <h2 className={`mb-3 text-sm font-semibold uppercase tracking-[0.2em] text-accent-${accentColor}`}>
+        TWAP Orders
+      </h2>
+      <div className="space-y-3">
+        {twaps.map((twap) => {
+          const { progress } = twap;
+          const filledPct =
+            (parseFloat(progress.filledQuantity) / parseFloat(twap.quantity)) * 100;
+          const isLive = twap.status === "active" || twap.status === "paused";
+
+          return (
+            <div key={twap.id} className="border-b border-border/50 pb-3 text-xs">
+              <div className="flex items-center justify-between">
+                <span>
+                  <span
+                    className={`font-semibold uppercase ${
+                      twap.side === "buy" ? "text-green-400" : "text-red-400"
+                    }`}
+                  >
+                    {twap.side}
+                  </span>{" "}
+                  <span className="font-mono text-white">{parseFloat(twap.quantity)}</span>{" "}
+                  <span className="text-zinc-500">
+                    {twap.childType}
+                    {twap.price && ` ≤ $${parseFloat(twap.price).toFixed(2)}`}
+                  </span>
+                </span>
+                <span className={`uppercase ${STATUS_CLASSES[twap.status] ?? "text-zinc-400"}`}>
+                  {twap.status.replace("_", " ")}
+                </span>
+              </div>
+
+              <div className="mt-2 h-1 rounded bg-zinc-800">
+                <div
+                  className={`h-1 rounded bg-accent-${accentColor}`}
+                  style={{ width: `${Math.min(filledPct, 100)}%` }}
+                />
+              </div>
+
+              <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 font-mono text-zinc-400">
+                <div className="flex justify-between">
+                  <dt className="text-zinc-500">Filled</dt>
+                  <dd>{parseFloat(progress.filledQuantity)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-zinc-500">Slices</dt>
+                  <dd>
+                    {progress.slicesSent}/{progress.sliceCount}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-zinc-500">Avg</dt>
+                  <dd>
+                    {progress.averagePrice
+                      ? `$${parseFloat(progress.averagePrice).toFixed(4)}`
+                      : "—"}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-zinc-500">Slippage</dt>
+                  <dd
+                    className={
+                      progress.slippage && parseFloat(progress.slippage) > 0
+                        ? "text-red-400"
+                        : "text-green-400"
+                    }
+                  >
+                    {progress.slippage
+                      ? `${(parseFloat(progress.slippage) * 100).toFixed(3)}%`
+                      : "—"}
+                  </dd>
+                </div>
+              </dl>
+
+              {twap.lastError && (isLive || twap.status === "partially_filled") && (
+                <p className="mt-1 text-yellow-400">{twap.lastError}</p>
+              )}
+
+              {isLive && (
+                <div className="mt-2 flex gap-2">
+                  <button
+                    onClick={() =>
+                      handleAction(twap.id, twap.status === "active" ? "pause" : "resume")
+                    }
+                    disabled={busyId === twap.id}
+                    className="rounded border border-border px-2 py-0.5 text-zinc-300 transition-colors hover:text-white disabled:opacity-50"
+                  >
+                    {twap.status === "active" ? "Pause" : "Resume"}
+                  </button>
+                  <button
+                    onClick={() => handleAction(twap.id, "cancel")}
+                    disabled={busyId === twap.id}
+                    className="rounded border border-red-500/30 px-2 py-0.5 text-red-400 transition-colors hover:bg-red-500/10 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
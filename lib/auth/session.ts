@@ -25,3 +25,12 @@ export async function getSession() {
     return null;
   }
 }
+
+// Admins are listed by email in ADMIN_EMAILS (comma-separated)
+export function isAdmin(user: { email: string }): boolean {
+  const admins = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(user.email.toLowerCase());
+}
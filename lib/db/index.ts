@@ -22,3 +22,5 @@ export const db = new Proxy({} as ReturnType<typeof drizzle<typeof schema>>, {
     return (getDb() as unknown as Record<string | symbol, unknown>)[prop];
   },
 });
+
+export type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
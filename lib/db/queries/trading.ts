@@ -1,66 +1,52 @@
 import { db } from "@/lib/db";
-import { orders, trades, positions } from "@/lib/db/schema";
+import { orders, trades, positions, twapOrders, liquidationEvents } from "@/lib/db/schema";
 import { eq, and, or, sql, asc, desc } from "drizzle-orm";
 import type { OrderBookSnapshot } from "@/lib/trading/types";
+import * as dec from "@/lib/trading/decimal";
 
-export async function getOrderBook(
-  pair: string,
-  depth: number = 20
-): Promise<OrderBookSnapshot> {
-  // Bids: buy orders, grouped by price, highest first
-  const bids = await db
-    .select({
-      price: orders.price,
-      quantity: sql<string>`SUM(${orders.quantity}::decimal - ${orders.filledQuantity}::decimal)`,
-      orderCount: sql<number>`COUNT(*)::int`,
-    })
-    .from(orders)
-    .where(
-      and(
-        eq(orders.pair, pair),
-        eq(orders.side, "buy"),
-        sql`${orders.status} IN ('open', 'partial')`,
-        sql`${orders.price} IS NOT NULL`
-      )
-    )
-    .groupBy(orders.price)
-    .orderBy(desc(orders.price))
-    .limit(depth);
+/** One side of the book by price level, best price first. */
+async function getBookSide(pair: string, side: "buy" | "sell", depth: number) {
+  const remaining = sql`${orders.quantity}::decimal - ${orders.filledQuantity}::decimal`;
+  // Icebergs only show what is left of their current slice
+  const visible = sql`CASE WHEN ${orders.displayQuantity} IS NULL THEN ${remaining}
+    ELSE LEAST(${remaining}, ${orders.displayQuantity}::decimal
+      - MOD(${orders.filledQuantity}::decimal, ${orders.displayQuantity}::decimal)) END`;
 
-  // Asks: sell orders, grouped by price, lowest first
-  const asks = await db
+  const levels = await db
     .select({
       price: orders.price,
-      quantity: sql<string>`SUM(${orders.quantity}::decimal - ${orders.filledQuantity}::decimal)`,
+      quantity: sql<string>`SUM(${visible})`,
       orderCount: sql<number>`COUNT(*)::int`,
     })
     .from(orders)
     .where(
       and(
         eq(orders.pair, pair),
-        eq(orders.side, "sell"),
+        eq(orders.side, side),
         sql`${orders.status} IN ('open', 'partial')`,
         sql`${orders.price} IS NOT NULL`
       )
     )
     .groupBy(orders.price)
-    .orderBy(asc(orders.price))
+    .orderBy(side === "buy" ? desc(orders.price) : asc(orders.price))
     .limit(depth);
 
-  return {
-    pair,
-    bids: bids.map((b) => ({
-      price: b.price!,
-      quantity: b.quantity,
-      orderCount: b.orderCount,
-    })),
-    asks: asks.map((a) => ({
-      price: a.price!,
-      quantity: a.quantity,
-      orderCount: a.orderCount,
-    })),
-    timestamp: new Date().toISOString(),
-  };
+  return levels.map((level) => ({
+    price: dec.normalize(level.price!),
+    quantity: dec.normalize(level.quantity),
+    orderCount: level.orderCount,
+  }));
+}
+
+export async function getOrderBook(
+  pair: string,
+  depth: number = 20
+): Promise<OrderBookSnapshot> {
+  const [bids, asks] = await Promise.all([
+    getBookSide(pair, "buy", depth),
+    getBookSide(pair, "sell", depth),
+  ]);
+  return { pair, bids, asks, timestamp: new Date().toISOString() };
 }
 
 export async function getRecentTrades(pair: string, limit: number = 50) {
@@ -88,10 +74,23 @@ export async function getUserOrders(
     .limit(options?.limit ?? 50);
 }
 
+export async function getOrderByClientOrderId(
+  userId: string,
+  clientOrderId: string
+) {
+  const [order] = await db
+    .select()
+    .from(orders)
+    .where(
+      and(eq(orders.userId, userId), eq(orders.clientOrderId, clientOrderId))
+    );
+  return order ?? null;
+}
+
 export async function getUserOpenOrders(userId: string, pair?: string) {
   const conditions = [
     eq(orders.userId, userId),
-    sql`${orders.status} IN ('open', 'partial')`,
+    sql`${orders.status} IN ('pending', 'open', 'partial')`,
   ];
   if (pair) conditions.push(eq(orders.pair, pair));
 
@@ -102,6 +101,38 @@ export async function getUserOpenOrders(userId: string, pair?: string) {
     .orderBy(desc(orders.createdAt));
 }
 
+export async function getUserTwapOrders(
+  userId: string,
+  options?: { pair?: string; limit?: number }
+) {
+  const conditions = [eq(twapOrders.userId, userId)];
+  if (options?.pair) conditions.push(eq(twapOrders.pair, options.pair));
+
+  return db
+    .select()
+    .from(twapOrders)
+    .where(and(...conditions))
+    .orderBy(desc(twapOrders.createdAt))
+    .limit(options?.limit ?? 20);
+}
+
+export async function getTwapOrder(userId: string, twapId: string) {
+  const [twap] = await db
+    .select()
+    .from(twapOrders)
+    .where(and(eq(twapOrders.id, twapId), eq(twapOrders.userId, userId)));
+  return twap ?? null;
+}
+
+// Slices in the order they were sent
+export async function getTwapChildOrders(twapId: string) {
+  return db
+    .select()
+    .from(orders)
+    .where(eq(orders.parentId, twapId))
+    .orderBy(asc(orders.createdAt));
+}
+
 export async function getUserPositions(userId: string, status: string = "open") {
   return db
     .select()
@@ -130,6 +161,46 @@ export async function getOpenPositionForContract(
   return pos ?? null;
 }
 
+/**
+ * What a new futures order on this side would add to: the open position plus
+ * the unfilled quantity of every working order that could still grow it.
+ */
+export async function getSameSideQuantity(
+  userId: string,
+  pair: string,
+  side: "buy" | "sell"
+): Promise<string> {
+  const samePos = await getOpenPositionForContract(
+    userId,
+    pair,
+    side === "buy" ? "long" : "short"
+  );
+  const [working] = await db
+    .select({
+      quantity: sql<string>`COALESCE(SUM(${orders.quantity} - ${orders.filledQuantity}), 0)`,
+    })
+    .from(orders)
+    .where(
+      and(
+        eq(orders.userId, userId),
+        eq(orders.pair, pair),
+        eq(orders.side, side),
+        eq(orders.reduceOnly, false),
+        sql`${orders.status} IN ('pending', 'open', 'partial')`
+      )
+    );
+  return dec.add(samePos?.quantity ?? "0", working.quantity);
+}
+
+export async function getUserLiquidationEvents(userId: string, limit: number = 50) {
+  return db
+    .select()
+    .from(liquidationEvents)
+    .where(eq(liquidationEvents.userId, userId))
+    .orderBy(desc(liquidationEvents.createdAt))
+    .limit(limit);
+}
+
 export async function getUserTradeHistory(userId: string, limit: number = 50) {
   return db
     .select()
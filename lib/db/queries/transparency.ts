@@ -1,11 +1,14 @@
 import { db } from "@/lib/db";
-import { users, trades, transactions, orders } from "@/lib/db/schema";
-import { eq, and, sql, gte, desc } from "drizzle-orm";
+import { users, trades, transactions, orders, wallets } from "@/lib/db/schema";
+import { eq, ne, and, sql, gte, asc, desc } from "drizzle-orm";
+import { SYSTEM_ACCOUNT_UID } from "@/lib/trading/constants";
+import { sub } from "@/lib/trading/decimal";
 
 export async function getTotalUserCount(): Promise<number> {
   const [result] = await db
     .select({ count: sql<number>`COUNT(*)::int` })
-    .from(users);
+    .from(users)
+    .where(ne(users.firebaseUid, SYSTEM_ACCOUNT_UID));
   return result.count;
 }
 
@@ -46,10 +49,20 @@ export async function getWithdrawalFeeRevenue(): Promise<string> {
   return result.totalFees;
 }
 
+// What the book shows of each order — an iceberg only its current slice
+const visibleQuantity = sql`CASE
+  WHEN ${orders.displayQuantity} IS NULL
+    THEN ${orders.quantity}::decimal - ${orders.filledQuantity}::decimal
+  ELSE LEAST(
+    ${orders.displayQuantity}::decimal - MOD(${orders.filledQuantity}::decimal, ${orders.displayQuantity}::decimal),
+    ${orders.quantity}::decimal - ${orders.filledQuantity}::decimal
+  )
+END`;
+
 export async function getOrderBookDepth(pair: string) {
   const [bidDepth] = await db
     .select({
-      totalVolume: sql<string>`COALESCE(SUM(${orders.quantity}::decimal - ${orders.filledQuantity}::decimal), 0)::text`,
+      totalVolume: sql<string>`COALESCE(SUM(${visibleQuantity}), 0)::text`,
       orderCount: sql<number>`COUNT(*)::int`,
       bestPrice: sql<string>`MAX(${orders.price})`,
     })
@@ -65,7 +78,7 @@ export async function getOrderBookDepth(pair: string) {
 
   const [askDepth] = await db
     .select({
-      totalVolume: sql<string>`COALESCE(SUM(${orders.quantity}::decimal - ${orders.filledQuantity}::decimal), 0)::text`,
+      totalVolume: sql<string>`COALESCE(SUM(${visibleQuantity}), 0)::text`,
       orderCount: sql<number>`COUNT(*)::int`,
       bestPrice: sql<string>`MIN(${orders.price})`,
     })
@@ -79,11 +92,9 @@ export async function getOrderBookDepth(pair: string) {
       )
     );
 
-  const bestBid = bidDepth.bestPrice ? parseFloat(bidDepth.bestPrice) : null;
-  const bestAsk = askDepth.bestPrice ? parseFloat(askDepth.bestPrice) : null;
   const spread =
-    bestBid !== null && bestAsk !== null
-      ? (bestAsk - bestBid).toFixed(8)
+    bidDepth.bestPrice && askDepth.bestPrice
+      ? sub(askDepth.bestPrice, bidDepth.bestPrice)
       : null;
 
   return {
@@ -111,6 +122,7 @@ export async function getRecentTradesAnonymized(
       pair: trades.pair,
       price: trades.price,
       quantity: trades.quantity,
+      auction: trades.auction,
       createdAt: trades.createdAt,
     })
     .from(trades)
@@ -127,3 +139,35 @@ export async function getTradeCount(pair?: string): Promise<number> {
     .where(conditions.length > 0 ? and(...conditions) : undefined);
   return result.count;
 }
+
+// The insurance fund is the system account's collateral wallets
+export async function getInsuranceFundBalances() {
+  return db
+    .select({ currency: wallets.currency, balance: wallets.balance })
+    .from(wallets)
+    .innerJoin(users, eq(users.id, wallets.userId))
+    .where(eq(users.firebaseUid, SYSTEM_ACCOUNT_UID))
+    .orderBy(asc(wallets.currency));
+}
+
+export async function getInsuranceFundHistory(limit: number = 20) {
+  return db
+    .select({
+      id: transactions.id,
+      currency: transactions.currency,
+      amount: transactions.amount,
+      balanceAfter: transactions.balanceAfter,
+      description: transactions.description,
+      createdAt: transactions.createdAt,
+    })
+    .from(transactions)
+    .innerJoin(users, eq(users.id, transactions.userId))
+    .where(
+      and(
+        eq(users.firebaseUid, SYSTEM_ACCOUNT_UID),
+        eq(transactions.type, "insurance_fund")
+      )
+    )
+    .orderBy(desc(transactions.createdAt))
+    .limit(limit);
+}
@@ -1,9 +1,22 @@
-import { pgTable, uuid, text, timestamp, decimal, unique, index } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  decimal,
+  boolean,
+  integer,
+  jsonb,
+  unique,
+  index,
+} from "drizzle-orm/pg-core";
 
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().defaultRandom(),
   firebaseUid: text("firebase_uid").unique().notNull(),
   email: text("email").unique().notNull(),
+  stpMode: text("stp_mode").default("cancel_newest").notNull(), // account default for self-trade prevention
+  marginMode: text("margin_mode").default("isolated").notNull(), // "isolated" | "cross" — how futures positions are margined
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -50,22 +63,86 @@ export const orders = pgTable(
     userId: uuid("user_id")
       .references(() => users.id)
       .notNull(),
+    clientOrderId: text("client_order_id"), // caller-chosen, unique per user
+    parentId: uuid("parent_id").references(() => twapOrders.id), // slice of a TWAP order
     pair: text("pair").notNull(), // "USDT-USDC" | "XAU-PERP" | "XAG-PERP"
     side: text("side").notNull(), // "buy" | "sell"
-    type: text("type").notNull(), // "limit" | "market"
+    type: text("type").notNull(), // "limit" | "market" | "stop_market" | "stop_limit" | "trailing_stop"
     price: decimal("price", { precision: 18, scale: 8 }), // null for market orders
+    triggerPrice: decimal("trigger_price", { precision: 18, scale: 8 }), // stop orders only
+    trailingAmount: decimal("trailing_amount", { precision: 18, scale: 8 }), // trailing stops — fixed distance behind the peak…
+    trailingRate: decimal("trailing_rate", { precision: 18, scale: 8 }), // …or a fraction of it
+    trailingPeak: decimal("trailing_peak", { precision: 18, scale: 8 }), // best mark since placement; triggerPrice follows it
     quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
+    displayQuantity: decimal("display_quantity", { precision: 18, scale: 8 }), // iceberg slice — null shows the whole order
+    quoteQuantity: decimal("quote_quantity", { precision: 18, scale: 8 }), // spot market orders sized in quote ("spend 5 USDC")
+    maxSlippage: decimal("max_slippage", { precision: 18, scale: 8 }), // market orders — fraction of the best price at execution
+    protectionPrice: decimal("protection_price", { precision: 18, scale: 8 }), // market orders stop sweeping past this price
     filledQuantity: decimal("filled_quantity", { precision: 18, scale: 8 })
       .default("0")
       .notNull(),
-    status: text("status").default("open").notNull(), // "open" | "partial" | "filled" | "cancelled"
+    status: text("status").default("open").notNull(), // "pending" | "open" | "partial" | "filled" | "cancelled"
+    cancelReason: text("cancel_reason"), // set when the system cancels the order
+    timeInForce: text("time_in_force").default("gtc").notNull(), // "gtc" | "ioc" | "fok" | "gtd" | "post_only"
+    stpMode: text("stp_mode"), // self-trade prevention — null uses the account's mode
+    expiresAt: timestamp("expires_at"), // gtd only
     collateralCurrency: text("collateral_currency"), // "USDT" | "USDC" — futures only
+    leverage: decimal("leverage", { precision: 5, scale: 2 }), // futures only
+    reservedAmount: decimal("reserved_amount", { precision: 18, scale: 8 }) // held back from availableBalance for the unfilled part
+      .default("0")
+      .notNull(),
+    reservedCurrency: text("reserved_currency"), // null if the order reserves nothing
+    reduceOnly: boolean("reduce_only").default(false).notNull(), // futures only — never opens or grows a position
+    triggeredAt: timestamp("triggered_at"), // when a stop order left "pending"
+    requeuedAt: timestamp("requeued_at"), // when an amendment sent the order to the back of its price level
+    takeProfitPrice: decimal("take_profit_price", { precision: 18, scale: 8 }), // futures bracket, applied to the position on fill
+    stopLossPrice: decimal("stop_loss_price", { precision: 18, scale: 8 }),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
   (table) => [
     index("orders_pair_side_status_price").on(table.pair, table.side, table.status, table.price),
     index("orders_user_status").on(table.userId, table.status),
+    index("orders_pair_status_trigger").on(table.pair, table.status, table.triggerPrice),
+    unique("orders_user_client_order_id").on(table.userId, table.clientOrderId),
+    index("orders_parent").on(table.parentId),
+  ]
+);
+
+export const twapOrders = pgTable(
+  "twap_orders",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id)
+      .notNull(),
+    pair: text("pair").notNull(),
+    side: text("side").notNull(), // "buy" | "sell"
+    childType: text("child_type").notNull(), // "limit" | "market" — each slice is IOC
+    price: decimal("price", { precision: 18, scale: 8 }), // limit slices only
+    quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
+    sliceCount: integer("slice_count").notNull(),
+    intervalSeconds: integer("interval_seconds").notNull(),
+    slicesSent: integer("slices_sent").default(0).notNull(),
+    filledQuantity: decimal("filled_quantity", { precision: 18, scale: 8 })
+      .default("0")
+      .notNull(),
+    filledValue: decimal("filled_value", { precision: 18, scale: 8 }) // sum of price × quantity, for the average price
+      .default("0")
+      .notNull(),
+    arrivalPrice: decimal("arrival_price", { precision: 18, scale: 8 }).notNull(), // mark (futures) or mid (spot) at creation
+    collateralCurrency: text("collateral_currency"), // futures only
+    leverage: decimal("leverage", { precision: 5, scale: 2 }), // futures only
+    reduceOnly: boolean("reduce_only").default(false).notNull(),
+    status: text("status").default("active").notNull(), // "active" | "paused" | "completed" | "partially_filled" | "cancelled"
+    nextSliceAt: timestamp("next_slice_at").notNull(),
+    lastError: text("last_error"), // why the last slice was not sent
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("twap_orders_user_status").on(table.userId, table.status),
+    index("twap_orders_status_next_slice").on(table.status, table.nextSliceAt),
   ]
 );
 
@@ -90,6 +167,7 @@ export const trades = pgTable(
     quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
     makerFee: decimal("maker_fee", { precision: 18, scale: 8 }).notNull(),
     takerFee: decimal("taker_fee", { precision: 18, scale: 8 }).notNull(),
+    auction: boolean("auction").default(false).notNull(), // filled in a call-auction uncross
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [
@@ -117,6 +195,8 @@ export const positions = pgTable(
     realizedPnl: decimal("realized_pnl", { precision: 18, scale: 8 })
       .default("0")
       .notNull(),
+    takeProfitPrice: decimal("take_profit_price", { precision: 18, scale: 8 }),
+    stopLossPrice: decimal("stop_loss_price", { precision: 18, scale: 8 }),
     lastFundingAt: timestamp("last_funding_at"),
     status: text("status").default("open").notNull(), // "open" | "closed" | "liquidated"
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -127,3 +207,56 @@ export const positions = pgTable(
     index("positions_contract_status").on(table.contract, table.status),
   ]
 );
+
+export const liquidationEvents = pgTable(
+  "liquidation_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id)
+      .notNull(),
+    positionId: uuid("position_id")
+      .references(() => positions.id)
+      .notNull(),
+    contract: text("contract").notNull(),
+    step: text("step").notNull(), // "orders_cancelled" | "partial" | "full" | "adl"
+    quantity: decimal("quantity", { precision: 18, scale: 8 }).default("0").notNull(), // contracts closed
+    remainingQuantity: decimal("remaining_quantity", { precision: 18, scale: 8 }).notNull(),
+    price: decimal("price", { precision: 18, scale: 8 }).notNull(), // average fill; the mark when orders were cancelled
+    realizedPnl: decimal("realized_pnl", { precision: 18, scale: 8 }).default("0").notNull(),
+    ordersCancelled: integer("orders_cancelled").default(0).notNull(),
+    marginRatio: decimal("margin_ratio", { precision: 18, scale: 8 }), // after the step; null once nothing is left
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("liquidation_events_user_created").on(table.userId, table.createdAt),
+    index("liquidation_events_position").on(table.positionId),
+  ]
+);
+
+export const markets = pgTable("markets", {
+  pair: text("pair").primaryKey(), // no row means the market is open
+  status: text("status").default("open").notNull(), // "open" | "cancel-only" | "post-only" | "halted" | "auction"
+  reason: text("reason"), // shown on the trade pages
+  resumesAt: timestamp("resumes_at"), // circuit-breaker halts reopen on their own
+  updatedBy: uuid("updated_by").references(() => users.id), // null for automatic changes
+  bookVersion: integer("book_version").default(0).notNull(), // bumped by every order book change
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const idempotencyKeys = pgTable(
+  "idempotency_keys",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id)
+      .notNull(),
+    key: text("key").notNull(), // Idempotency-Key header
+    endpoint: text("endpoint").notNull(), // e.g. "POST /api/trading/order"
+    requestHash: text("request_hash").notNull(), // sha256 of the body — a key is only replayed for the same request
+    statusCode: integer("status_code"), // null while the first request is in flight
+    response: jsonb("response"),
+    createdAt: timestamp("created_at").defaultNow().notNull(), // reset when a stale claim is taken over
+  },
+  (table) => [unique("idempotency_keys_user_key").on(table.userId, table.key)]
+);
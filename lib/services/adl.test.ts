@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Position } from "@/lib/trading/types";
+import { getAdlRanks } from "./adl";
+
+// The open positions the queue query returns
+let openPositions: Position[] = [];
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    select: () => ({
+      from: () => ({ where: () => ({ orderBy: async () => openPositions }) }),
+    }),
+  },
+}));
+
+function long(id: string, entryPrice: string, margin: string): Position {
+  return {
+    id,
+    contract: "XAU-PERP",
+    side: "long",
+    entryPrice,
+    quantity: "10",
+    margin,
+  } as Position;
+}
+
+const markPrices = new Map([["XAU-PERP", "2650"]]);
+
+describe("getAdlRanks", () => {
+  beforeEach(() => {
+    // 10 contracts bought at $2000: $6.50 PnL on $26.50 notional at the mark
+    openPositions = [
+      long("moderate", "2000", "5"),
+      long("losing", "2700", "2.65"),
+      long("barely", "2000", "26.5"),
+      long("levered", "2000", "2.65"),
+      long("safe", "2000", "10"),
+    ];
+  });
+
+  it("ranks the most profitable, most levered positions first", async () => {
+    const ranks = await getAdlRanks(openPositions, markPrices);
+    expect(Object.fromEntries(ranks)).toEqual({
+      levered: 5,
+      moderate: 4,
+      safe: 3,
+      barely: 2,
+      losing: 0,
+    });
+  });
+
+  it("ranks only the positions asked about, against the whole queue", async () => {
+    const ranks = await getAdlRanks([openPositions[2]], markPrices);
+    expect(ranks.get("barely")).toBe(2);
+  });
+
+  it("leaves every position at 0 when the mark puts them all at a loss", async () => {
+    const ranks = await getAdlRanks(openPositions, new Map([["XAU-PERP", "1900"]]));
+    expect([...ranks.values()]).toEqual([0, 0, 0, 0, 0]);
+  });
+});
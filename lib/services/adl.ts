@@ -0,0 +1,182 @@
+import { eq, and, ne, asc, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type { Tx } from "@/lib/db";
+import { positions, wallets, transactions } from "@/lib/db/schema";
+import { ADL_RANK_LEVELS, PAIRS } from "@/lib/trading/constants";
+import type { FuturesPair } from "@/lib/trading/constants";
+import type { Position } from "@/lib/trading/types";
+import * as dec from "@/lib/trading/decimal";
+import { calculateNotional, calculateUnrealizedPnl } from "./margin";
+import { pruneReduceOnlyOrders } from "./matching";
+import type { OrderBook } from "./orderbook";
+
+/**
+ * Auto-deleveraging. What a liquidation cannot put through the book within
+ * what the insurance fund covers is closed against the opposite side's
+ * profitable positions instead, at the liquidated position's bankruptcy
+ * price. The queue ranks them by PnL ratio times effective leverage — the
+ * most profitable, most levered go first — and each is reduced by the same
+ * number of contracts the liquidated side loses, so long and short open
+ * interest stay equal.
+ */
+
+/** A position's ADL score: PnL over margin, times notional over equity. Null unless in profit. */
+function adlScore(pos: Position, markPrice: string): string | null {
+  const contractSize = PAIRS[pos.contract as FuturesPair].contractSize;
+  const unrealizedPnl = calculateUnrealizedPnl(
+    pos.side as "long" | "short",
+    pos.entryPrice,
+    markPrice,
+    pos.quantity,
+    contractSize
+  );
+  if (!dec.isPositive(unrealizedPnl) || !dec.isPositive(pos.margin)) return null;
+
+  const notional = calculateNotional(pos.quantity, contractSize, markPrice);
+  return dec.div(
+    dec.mul(unrealizedPnl, notional),
+    dec.mul(pos.margin, dec.add(pos.margin, unrealizedPnl))
+  );
+}
+
+/**
+ * Open profitable positions on one side of a contract, first to be
+ * deleveraged first. Pass the transaction to lock them.
+ */
+async function getAdlQueue(
+  contract: string,
+  side: "long" | "short",
+  markPrice: string,
+  tx?: Tx,
+  excludeUserId?: string
+): Promise<Position[]> {
+  const query = (tx ?? db)
+    .select()
+    .from(positions)
+    .where(
+      and(
+        eq(positions.contract, contract),
+        eq(positions.side, side),
+        eq(positions.status, "open"),
+        excludeUserId ? ne(positions.userId, excludeUserId) : undefined
+      )
+    )
+    .orderBy(asc(positions.createdAt));
+  const candidates = tx ? await query.for("update") : await query;
+
+  return candidates
+    .map((pos) => ({ pos, score: adlScore(pos, markPrice) }))
+    .filter((entry): entry is { pos: Position; score: string } => entry.score !== null)
+    .sort((a, b) => dec.cmp(b.score, a.score))
+    .map((entry) => entry.pos);
+}
+
+/**
+ * Each position's ADL rank, from ADL_RANK_LEVELS (next in line) down to 1
+ * by where it sits in its side's queue; 0 when not in profit.
+ */
+export async function getAdlRanks(
+  userPositions: Position[],
+  markPrices: Map<string, string>
+): Promise<Map<string, number>> {
+  const queues = new Map<string, Promise<Position[]>>();
+  for (const pos of userPositions) {
+    const key = `${pos.contract}:${pos.side}`;
+    if (!queues.has(key)) {
+      queues.set(
+        key,
+        getAdlQueue(pos.contract, pos.side as "long" | "short", markPrices.get(pos.contract)!)
+      );
+    }
+  }
+
+  const ranks = new Map<string, number>();
+  for (const pos of userPositions) {
+    const queue = await queues.get(`${pos.contract}:${pos.side}`)!;
+    const index = queue.findIndex((queued) => queued.id === pos.id);
+    ranks.set(
+      pos.id,
+      index === -1 ? 0 : ADL_RANK_LEVELS - Math.floor((index * ADL_RANK_LEVELS) / queue.length)
+    );
+  }
+  return ranks;
+}
+
+/**
+ * Reduce up to `quantity` contracts from the queue opposite a liquidated
+ * position at `price`, releasing each position's margin share and PnL to its
+ * wallet as an `adl` transaction. Returns how many contracts were deleveraged — less than asked
+ * when the queue runs out.
+ */
+export async function autoDeleverage(
+  tx: Tx,
+  book: OrderBook,
+  liquidated: Position,
+  quantity: string,
+  price: string,
+  markPrice: string
+): Promise<string> {
+  const contract = liquidated.contract as FuturesPair;
+  const side = liquidated.side === "long" ? "short" : "long";
+  const queue = await getAdlQueue(contract, side, markPrice, tx, liquidated.userId);
+
+  let remaining = quantity;
+  for (const pos of queue) {
+    if (!dec.isPositive(remaining)) break;
+
+    const closeQty = dec.min(remaining, pos.quantity);
+    const pnl = calculateUnrealizedPnl(
+      side,
+      pos.entryPrice,
+      price,
+      closeQty,
+      PAIRS[contract].contractSize
+    );
+    const remainingQty = dec.sub(pos.quantity, closeQty);
+    const marginRelease = dec.isZero(remainingQty)
+      ? pos.margin
+      : dec.mulDiv(pos.margin, closeQty, pos.quantity, "floor");
+
+    await tx
+      .update(positions)
+      .set({
+        quantity: remainingQty,
+        ...(dec.isZero(remainingQty)
+          ? { status: "closed", takeProfitPrice: null, stopLossPrice: null }
+          : { margin: dec.sub(pos.margin, marginRelease) }),
+        realizedPnl: sql`${positions.realizedPnl} + ${pnl}::decimal`,
+        updatedAt: new Date(),
+      })
+      .where(eq(positions.id, pos.id));
+
+    const amount = dec.add(pnl, marginRelease);
+    const [wallet] = await tx
+      .update(wallets)
+      .set({
+        balance: sql`${wallets.balance} + ${amount}::decimal`,
+        availableBalance: sql`${wallets.availableBalance} + ${amount}::decimal`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(wallets.userId, pos.userId), eq(wallets.currency, pos.collateralCurrency)))
+      .returning({ id: wallets.id, balance: wallets.balance });
+
+    if (wallet) {
+      await tx.insert(transactions).values({
+        userId: pos.userId,
+        walletId: wallet.id,
+        type: "adl",
+        currency: pos.collateralCurrency,
+        amount,
+        balanceAfter: wallet.balance,
+        referenceId: pos.id,
+        referenceType: "position",
+        description: `Auto-deleveraged ${closeQty} ${contract} ${side} at ${price}`,
+      });
+    }
+
+    await pruneReduceOnlyOrders(tx, book, pos.userId, contract);
+    remaining = dec.sub(remaining, closeQty);
+  }
+
+  return dec.sub(quantity, remaining);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { calculateEquilibrium } from "./auction";
+import { OrderBook } from "./orderbook";
+
+let ids = 0;
+
+function bookWith(
+  orders: [side: "buy" | "sell", price: string, quantity: string, filled?: string][]
+): OrderBook {
+  const book = new OrderBook("XAU-PERP");
+  for (const [side, price, quantity, filled = "0"] of orders) {
+    book.add({
+      id: `order-${++ids}`,
+      userId: `user-${ids}`,
+      side,
+      price,
+      quantity,
+      filledQuantity: filled,
+      displayQuantity: null,
+      createdAt: new Date(),
+    });
+  }
+  return book;
+}
+
+describe("calculateEquilibrium", () => {
+  it("is null unless the book crosses", () => {
+    expect(calculateEquilibrium(bookWith([["buy", "100", "5"]]), "100")).toBeNull();
+    expect(
+      calculateEquilibrium(bookWith([["buy", "99", "5"], ["sell", "100", "5"]]), "100")
+    ).toBeNull();
+  });
+
+  it("picks the price that clears the most volume", () => {
+    const book = bookWith([
+      ["buy", "101", "5"],
+      ["buy", "100", "5"],
+      ["sell", "99", "4"],
+      ["sell", "100", "4"],
+    ]);
+    expect(calculateEquilibrium(book, "99")).toEqual({
+      price: "100.00000000",
+      volume: "8.00000000",
+      buyVolume: "10.00000000",
+      sellVolume: "8.00000000",
+    });
+  });
+
+  it("breaks volume ties by the smaller imbalance", () => {
+    const book = bookWith([
+      ["buy", "101", "4"],
+      ["sell", "100", "4"],
+      ["sell", "101", "2"],
+    ]);
+    expect(calculateEquilibrium(book, "101")?.price).toBe("100.00000000");
+  });
+
+  it("breaks remaining ties by the distance to the reference price", () => {
+    const book = bookWith([
+      ["buy", "101", "5"],
+      ["sell", "100", "5"],
+    ]);
+    expect(calculateEquilibrium(book, "101")?.price).toBe("101.00000000");
+    expect(calculateEquilibrium(book, "99")?.price).toBe("100.00000000");
+  });
+
+  it("counts only the unfilled part of each order", () => {
+    const book = bookWith([
+      ["buy", "100", "10", "6"],
+      ["sell", "100", "5"],
+    ]);
+    expect(calculateEquilibrium(book, "100")).toMatchObject({
+      volume: "4.00000000",
+      buyVolume: "4.00000000",
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { PAIRS } from "@/lib/trading/constants";
+import type { FuturesPair, PairKey } from "@/lib/trading/constants";
+import type { MarketStatus } from "@/lib/trading/types";
+import * as dec from "@/lib/trading/decimal";
+import { calculateFee, calculateQuoteAmount } from "@/lib/trading/decimal";
+import { calculateNotional } from "./margin";
+import { setMarketStatus } from "./markets";
+import type { MarketState } from "./markets";
+import { cancelRestingOrder, fillRestingOrder, pruneReduceOnlyOrders } from "./matching";
+import { readOrderBook, remainingQuantity, withOrderBook } from "./orderbook";
+import type { OrderBook } from "./orderbook";
+import { settleFill } from "./orders";
+import { getReferencePrice } from "./prices";
+
+/**
+ * Call auctions. While a market is in auction, orders rest without matching
+ * (see matchOrder) and the book may cross. The auction publishes an
+ * indicative price and volume, then uncrosses the book at a single clearing
+ * price before the market returns to continuous trading.
+ */
+
+export interface AuctionEquilibrium {
+  price: string;
+  volume: string; // executable at price
+  buyVolume: string; // bids at or above price
+  sellVolume: string; // asks at or below price
+}
+
+/**
+ * The price that executes the most volume. Ties go to the smallest
+ * imbalance between the two sides, then to the price nearest the reference
+ * price, then to the lower price. Null when the book does not cross.
+ */
+export function calculateEquilibrium(
+  book: OrderBook,
+  referencePrice: string
+): AuctionEquilibrium | null {
+  const bids = [...book.ordersFor("buy")];
+  const asks = [...book.ordersFor("sell")];
+  if (bids.length === 0 || asks.length === 0) return null;
+  if (dec.lt(bids[0].price, asks[0].price)) return null;
+
+  // Only prices between the best ask and the best bid can clear anything
+  const candidates = [...new Set([...bids, ...asks].map((o) => o.price))]
+    .filter((price) => dec.gte(price, asks[0].price) && dec.lte(price, bids[0].price))
+    .sort((a, b) => dec.cmp(a, b));
+
+  let best: AuctionEquilibrium | null = null;
+  for (const price of candidates) {
+    const buyVolume = dec.sum(
+      bids.filter((o) => dec.gte(o.price, price)).map(remainingQuantity)
+    );
+    const sellVolume = dec.sum(
+      asks.filter((o) => dec.lte(o.price, price)).map(remainingQuantity)
+    );
+    const candidate = { price, volume: dec.min(buyVolume, sellVolume), buyVolume, sellVolume };
+    if (!dec.isPositive(candidate.volume)) continue;
+    if (!best || isBetterEquilibrium(candidate, best, referencePrice)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+function isBetterEquilibrium(
+  candidate: AuctionEquilibrium,
+  best: AuctionEquilibrium,
+  referencePrice: string
+): boolean {
+  const volume = dec.cmp(candidate.volume, best.volume);
+  if (volume !== 0) return volume > 0;
+  const imbalance = (e: AuctionEquilibrium) => dec.abs(dec.sub(e.buyVolume, e.sellVolume));
+  const balance = dec.cmp(imbalance(candidate), imbalance(best));
+  if (balance !== 0) return balance < 0;
+  const distance = (e: AuctionEquilibrium) => dec.abs(dec.sub(e.price, referencePrice));
+  return dec.lt(distance(candidate), distance(best));
+}
+
+/** The price and volume the book would clear at if the auction ended now. */
+export async function getIndicativeAuction(
+  pair: PairKey
+): Promise<AuctionEquilibrium | null> {
+  const referencePrice = await getReferencePrice(pair);
+  return readOrderBook(pair, (book) => calculateEquilibrium(book, referencePrice));
+}
+
+/**
+ * Uncross the book at the equilibrium price, then switch the market to its
+ * next status. Bids and asks that clear are paired off in price-time
+ * priority and every fill trades at the clearing price. Nobody takes
+ * liquidity in an auction, so both sides pay the maker fee; the later of the
+ * two orders is recorded as the taker. When a user's own bid and ask meet,
+ * the later one is cancelled.
+ */
+export async function uncrossAuction(
+  pair: PairKey,
+  next: { status: MarketStatus; reason?: string | null; updatedBy?: string | null }
+): Promise<{
+  market: MarketState;
+  auction: { price: string; volume: string; tradeCount: number } | null;
+}> {
+  const pairConfig = PAIRS[pair];
+  const referencePrice = await getReferencePrice(pair);
+
+  return withOrderBook(pair, async (book, tx) => {
+    const users = new Set(
+      [...book.ordersFor("buy"), ...book.ordersFor("sell")].map((o) => o.userId)
+    );
+
+    // Reduce-only orders rested without a position check — cap them first
+    if (pairConfig.type === "futures") {
+      for (const userId of users) {
+        await pruneReduceOnlyOrders(tx, book, userId, pair as FuturesPair);
+      }
+    }
+
+    const equilibrium = calculateEquilibrium(book, referencePrice);
+    let executed = "0";
+    let tradeCount = 0;
+
+    if (equilibrium) {
+      const { price } = equilibrium;
+      const bids = [...book.ordersFor("buy")].filter((o) => dec.gte(o.price, price));
+      const asks = [...book.ordersFor("sell")].filter((o) => dec.lte(o.price, price));
+      let b = 0;
+      let a = 0;
+
+      while (dec.lt(executed, equilibrium.volume) && b < bids.length && a < asks.length) {
+        const bid = book.get(bids[b].id);
+        const ask = book.get(asks[a].id);
+        if (!bid) {
+          b++;
+          continue;
+        }
+        if (!ask) {
+          a++;
+          continue;
+        }
+
+        if (bid.userId === ask.userId) {
+          await cancelRestingOrder(tx, book, bid.createdAt > ask.createdAt ? bid.id : ask.id);
+          continue;
+        }
+
+        const quantity = dec.min(
+          dec.sub(equilibrium.volume, executed),
+          dec.min(remainingQuantity(bid), remainingQuantity(ask))
+        );
+        const bidRow = await fillRestingOrder(tx, book, bid, quantity);
+        const askRow = await fillRestingOrder(tx, book, ask, quantity);
+        const [taker, maker] =
+          bidRow.createdAt > askRow.createdAt ? [bidRow, askRow] : [askRow, bidRow];
+
+        const feeBase =
+          pairConfig.type === "spot"
+            ? calculateQuoteAmount(quantity, price)
+            : calculateNotional(quantity, pairConfig.contractSize, price);
+        const fee = calculateFee(feeBase, pairConfig.makerFeeRate);
+
+        await settleFill(
+          tx,
+          taker,
+          {
+            makerOrderId: maker.id,
+            makerUserId: maker.userId,
+            price,
+            quantity,
+            makerFee: fee,
+            takerFee: fee,
+          },
+          { auction: true }
+        );
+
+        executed = dec.add(executed, quantity);
+        tradeCount++;
+      }
+    }
+
+    // Shrunk or closed positions may leave resting reduce-only orders oversized
+    if (pairConfig.type === "futures" && tradeCount > 0) {
+      for (const userId of users) {
+        await pruneReduceOnlyOrders(tx, book, userId, pair as FuturesPair);
+      }
+    }
+
+    const market = await setMarketStatus(tx, pair, next);
+    return {
+      market,
+      auction: equilibrium
+        ? { price: equilibrium.price, volume: executed, tradeCount }
+        : null,
+    };
+  });
+}
@@ -0,0 +1,272 @@
+import { eq, and, inArray, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type { Tx } from "@/lib/db";
+import { orders, positions, users, wallets } from "@/lib/db/schema";
+import { PAIRS } from "@/lib/trading/constants";
+import type { FuturesPair } from "@/lib/trading/constants";
+import type { MarginMode, Position } from "@/lib/trading/types";
+import * as dec from "@/lib/trading/decimal";
+import { getAdlRanks } from "./adl";
+import {
+  calculateLiquidationPriceFromMargin,
+  calculateMaintenanceMargin,
+  calculateUnrealizedPnl,
+  isLiquidatable,
+} from "./margin";
+import { getMarkPrice } from "./prices";
+
+/**
+ * Cross-margin accounts. An isolated position stands on its own margin. In
+ * cross mode a collateral wallet's whole balance backs every open futures
+ * position on that currency: the account's equity (available balance plus
+ * each position's margin and unrealized PnL) is held against the positions'
+ * combined maintenance margin, and the account is liquidated as one. Funds
+ * reserved by working orders do not count.
+ */
+
+export interface CrossMarginAccount {
+  collateralCurrency: string;
+  walletBalance: string; // available — less what working orders reserve
+  equity: string;
+  maintenanceMargin: string;
+  marginRatio: string; // equity / maintenance margin — liquidated below 1
+  liquidatable: boolean;
+  positionIds: string[];
+}
+
+export type EnrichedPosition = Position & {
+  unrealizedPnl: string;
+  markPrice: string;
+  maintenanceMargin: string;
+  marginRatio: string; // the account's shared ratio in cross mode
+  marginMode: MarginMode;
+  adlRank: number; // 1–ADL_RANK_LEVELS, highest deleveraged first; 0 when not in profit
+};
+
+export function formatMarginRatio(equity: string, maintenanceMargin: string): string {
+  return dec.isPositive(maintenanceMargin)
+    ? dec.toNumber(dec.div(equity, maintenanceMargin)).toFixed(4)
+    : "Infinity";
+}
+
+export async function getMarginMode(userId: string): Promise<MarginMode> {
+  const [user] = await db
+    .select({ marginMode: users.marginMode })
+    .from(users)
+    .where(eq(users.id, userId));
+  return (user?.marginMode ?? "isolated") as MarginMode;
+}
+
+/**
+ * Switch an account's margin mode. Only allowed with no open futures
+ * positions or orders, so every position is margined one way for its
+ * whole life. The user row is locked for the switch; futures placement
+ * takes a share lock on it, so no order can slip in between the check and
+ * the update.
+ */
+export async function setMarginMode(userId: string, marginMode: MarginMode): Promise<MarginMode> {
+  const futuresPairs = Object.entries(PAIRS)
+    .filter(([, config]) => config.type === "futures")
+    .map(([pair]) => pair);
+
+  return db.transaction(async (tx) => {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+
+    const [openPosition] = await tx
+      .select({ id: positions.id })
+      .from(positions)
+      .where(and(eq(positions.userId, userId), eq(positions.status, "open")))
+      .limit(1);
+    const [openOrder] = await tx
+      .select({ id: orders.id })
+      .from(orders)
+      .where(
+        and(
+          eq(orders.userId, userId),
+          inArray(orders.pair, futuresPairs),
+          sql`${orders.status} IN ('pending', 'open', 'partial')`
+        )
+      )
+      .limit(1);
+    if (openPosition || openOrder) {
+      throw new Error("Close all futures positions and orders before switching margin mode");
+    }
+
+    const [updated] = await tx
+      .update(users)
+      .set({ marginMode, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning({ marginMode: users.marginMode });
+    return updated.marginMode as MarginMode;
+  });
+}
+
+/** Mark prices for the given contracts, fetched once each. */
+export async function getMarkPrices(
+  contracts: Iterable<string>
+): Promise<Map<string, string>> {
+  const unique = [...new Set(contracts)];
+  const marks = await Promise.all(
+    unique.map((contract) => getMarkPrice(contract as FuturesPair))
+  );
+  return new Map(unique.map((contract, i) => [contract, marks[i].markPrice]));
+}
+
+/** A position's unrealized PnL and maintenance margin at the mark. */
+export function positionHealth(pos: Position, markPrice: string) {
+  const pairConfig = PAIRS[pos.contract as FuturesPair];
+  return {
+    unrealizedPnl: calculateUnrealizedPnl(
+      pos.side as "long" | "short",
+      pos.entryPrice,
+      markPrice,
+      pos.quantity,
+      pairConfig.contractSize
+    ),
+    maintenanceMargin: calculateMaintenanceMargin(
+      pos.quantity,
+      pairConfig.contractSize,
+      markPrice,
+      pairConfig.riskTiers
+    ),
+  };
+}
+
+/**
+ * A cross account's health from its wallet's available balance and open positions.
+ * The positions must all use the given collateral currency.
+ */
+export function calculateCrossMarginAccount(
+  collateralCurrency: string,
+  walletBalance: string,
+  openPositions: Position[],
+  markPrices: Map<string, string>
+): CrossMarginAccount {
+  const health = openPositions.map((pos) =>
+    positionHealth(pos, markPrices.get(pos.contract)!)
+  );
+  const margin = dec.sum(openPositions.map((pos) => pos.margin));
+  const unrealizedPnl = dec.sum(health.map((h) => h.unrealizedPnl));
+  const maintenanceMargin = dec.sum(health.map((h) => h.maintenanceMargin));
+  const backing = dec.add(walletBalance, margin);
+  const equity = dec.add(backing, unrealizedPnl);
+
+  return {
+    collateralCurrency,
+    walletBalance,
+    equity,
+    maintenanceMargin,
+    marginRatio: formatMarginRatio(equity, maintenanceMargin),
+    liquidatable: isLiquidatable(backing, unrealizedPnl, maintenanceMargin),
+    positionIds: openPositions.map((pos) => pos.id),
+  };
+}
+
+/**
+ * A cross position's liquidation price: the mark at which its account would
+ * fall to maintenance margin, every other position held at its current mark.
+ */
+function calculateCrossLiquidationPrice(
+  pos: Position,
+  walletBalance: string,
+  accountPositions: Position[],
+  markPrices: Map<string, string>
+): string {
+  const pairConfig = PAIRS[pos.contract as FuturesPair];
+  const others = accountPositions
+    .filter((other) => other.id !== pos.id)
+    .map((other) => positionHealth(other, markPrices.get(other.contract)!));
+  // What backs this position: the wallet, every position's margin, and the
+  // rest of the account's PnL over its maintenance margin
+  const backing = dec.add(
+    dec.add(walletBalance, dec.sum(accountPositions.map((p) => p.margin))),
+    dec.sum(others.map((h) => dec.sub(h.unrealizedPnl, h.maintenanceMargin)))
+  );
+  return calculateLiquidationPriceFromMargin(
+    pos.entryPrice,
+    pos.side as "long" | "short",
+    pos.quantity,
+    pairConfig.contractSize,
+    backing,
+    pairConfig.riskTiers
+  );
+}
+
+/**
+ * A user's cross accounts, one per collateral currency with open positions.
+ * Pass the transaction to read locked rows.
+ */
+export async function getCrossMarginAccounts(
+  userId: string,
+  markPrices?: Map<string, string>,
+  executor: Tx | typeof db = db
+): Promise<CrossMarginAccount[]> {
+  const [openPositions, userWallets] = await Promise.all([
+    executor
+      .select()
+      .from(positions)
+      .where(and(eq(positions.userId, userId), eq(positions.status, "open"))),
+    executor.select().from(wallets).where(eq(wallets.userId, userId)),
+  ]);
+  const marks = markPrices ?? (await getMarkPrices(openPositions.map((pos) => pos.contract)));
+
+  const currencies = [...new Set(openPositions.map((pos) => pos.collateralCurrency))];
+  return currencies.map((currency) =>
+    calculateCrossMarginAccount(
+      currency,
+      userWallets.find((w) => w.currency === currency)?.availableBalance ?? "0",
+      openPositions.filter((pos) => pos.collateralCurrency === currency),
+      marks
+    )
+  );
+}
+
+/**
+ * Open positions with live PnL, maintenance margin, margin ratio and ADL
+ * rank. Cross positions carry their account's shared ratio, and a
+ * liquidation price worked out from the account's equity.
+ */
+export async function enrichPositions(
+  userId: string,
+  openPositions: Position[]
+): Promise<{ positions: EnrichedPosition[]; marginMode: MarginMode; accounts: CrossMarginAccount[] }> {
+  const [marginMode, markPrices] = await Promise.all([
+    getMarginMode(userId),
+    getMarkPrices(openPositions.map((pos) => pos.contract)),
+  ]);
+  const [accounts, adlRanks] = await Promise.all([
+    marginMode === "cross" && openPositions.length > 0
+      ? getCrossMarginAccounts(userId, markPrices)
+      : [],
+    getAdlRanks(openPositions, markPrices),
+  ]);
+
+  return {
+    marginMode,
+    accounts,
+    positions: openPositions.map((pos) => {
+      const markPrice = markPrices.get(pos.contract)!;
+      const { unrealizedPnl, maintenanceMargin } = positionHealth(pos, markPrice);
+      const account = accounts.find((a) => a.collateralCurrency === pos.collateralCurrency);
+      return {
+        ...pos,
+        ...(account && {
+          liquidationPrice: calculateCrossLiquidationPrice(
+            pos,
+            account.walletBalance,
+            openPositions.filter((p) => account.positionIds.includes(p.id)),
+            markPrices
+          ),
+        }),
+        unrealizedPnl,
+        markPrice,
+        maintenanceMargin,
+        marginRatio:
+          account?.marginRatio ??
+          formatMarginRatio(dec.add(pos.margin, unrealizedPnl), maintenanceMargin),
+        marginMode,
+        adlRank: adlRanks.get(pos.id) ?? 0,
+      };
+    }),
+  };
+}
@@ -4,18 +4,17 @@ import { eq, and, sql } from "drizzle-orm";
 import { PAIRS, FUNDING_RATE_CLAMP } from "@/lib/trading/constants";
 import { getMarkPrice } from "./prices";
 import { calculateNotional } from "./margin";
+import { lockOpenPosition } from "./positions";
+import * as dec from "@/lib/trading/decimal";
 import type { FuturesPair } from "@/lib/trading/constants";
 
 export function calculateFundingRate(
   futuresMidPrice: string | null,
   indexPrice: string
-): number {
-  if (!futuresMidPrice) return 0;
-  const mid = parseFloat(futuresMidPrice);
-  const idx = parseFloat(indexPrice);
-  if (idx === 0) return 0;
-  const rate = (mid - idx) / idx;
-  return Math.max(-FUNDING_RATE_CLAMP, Math.min(FUNDING_RATE_CLAMP, rate));
+): string {
+  if (!futuresMidPrice || dec.isZero(indexPrice)) return dec.normalize(0);
+  const rate = dec.div(dec.sub(futuresMidPrice, indexPrice), indexPrice);
+  return dec.max(-FUNDING_RATE_CLAMP, dec.min(FUNDING_RATE_CLAMP, rate));
 }
 
 export function getNextFundingTime(): Date {
@@ -51,12 +50,7 @@ export async function applyPendingFunding(
   positionId: string
 ): Promise<void> {
   await db.transaction(async (tx) => {
-    const [pos] = await tx
-      .select()
-      .from(positions)
-      .where(and(eq(positions.id, positionId), eq(positions.status, "open")))
-      .for("update");
-
+    const pos = await lockOpenPosition(tx, positionId);
     if (!pos) return;
 
     const lastFunding = getLastFundingTime();
@@ -67,9 +61,9 @@ export async function applyPendingFunding(
     const contract = pos.contract as FuturesPair;
     const pairConfig = PAIRS[contract];
     const markData = await getMarkPrice(contract);
-    const fundingRate = parseFloat(markData.fundingRate);
+    const fundingRate = markData.fundingRate;
 
-    if (fundingRate === 0) {
+    if (dec.isZero(fundingRate)) {
       // Update timestamp even if rate is 0
       await tx
         .update(positions)
@@ -84,13 +78,13 @@ export async function applyPendingFunding(
       markData.markPrice
     );
     // Positive rate: longs pay, shorts receive. Negative: vice versa.
-    const payment = notional * fundingRate;
     const isDebit =
-      (pos.side === "long" && fundingRate > 0) ||
-      (pos.side === "short" && fundingRate < 0);
+      (pos.side === "long" && dec.isPositive(fundingRate)) ||
+      (pos.side === "short" && dec.isNegative(fundingRate));
 
-    const amount = isDebit ? -Math.abs(payment) : Math.abs(payment);
-    const amountStr = amount.toFixed(8);
+    // Payments round up, receipts round down
+    const payment = dec.mul(notional, dec.abs(fundingRate), isDebit ? "ceil" : "floor");
+    const amountStr = isDebit ? dec.neg(payment) : payment;
 
     // Get the user's collateral wallet
     const [wallet] = await tx
@@ -151,9 +145,9 @@ export async function distributeFunding(
   contract: FuturesPair
 ): Promise<{ processedCount: number; fundingRate: string }> {
   const markData = await getMarkPrice(contract);
-  const fundingRate = parseFloat(markData.fundingRate);
+  const fundingRate = markData.fundingRate;
 
-  if (fundingRate === 0) {
+  if (dec.isZero(fundingRate)) {
     return { processedCount: 0, fundingRate: "0" };
   }
 
@@ -177,5 +171,5 @@ export async function distributeFunding(
     processedCount++;
   }
 
-  return { processedCount, fundingRate: fundingRate.toFixed(8) };
+  return { processedCount, fundingRate: dec.normalize(fundingRate) };
 }
@@ -0,0 +1,113 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { eq, and, isNull, lt } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { idempotencyKeys } from "@/lib/db/schema";
+
+/**
+ * Idempotent request handling. A request carrying an Idempotency-Key header
+ * runs at most once per user and key; replaying it returns the stored
+ * response instead of running the handler again. Server errors are not
+ * stored, so a request that failed with a 5xx can be retried with its key.
+ * A claim whose request never finished (the process died mid-request) can
+ * be taken over by a retry once CLAIM_TTL_MS has passed.
+ */
+
+const MAX_KEY_LENGTH = 255;
+const CLAIM_TTL_MS = 60 * 1000;
+
+export async function withIdempotency(
+  request: NextRequest,
+  userId: string,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get("Idempotency-Key");
+  if (key === null) return handler();
+
+  if (key.trim() === "" || key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json(
+      { success: false, error: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const endpoint = `${request.method} ${request.nextUrl.pathname}`;
+  const requestHash = createHash("sha256")
+    .update(await request.clone().text())
+    .digest("hex");
+
+  // Claim the key — only the first request with it gets to run
+  const claimedAt = new Date();
+  let [claim] = await db
+    .insert(idempotencyKeys)
+    .values({ userId, key, endpoint, requestHash, createdAt: claimedAt })
+    .onConflictDoNothing()
+    .returning({ id: idempotencyKeys.id });
+
+  if (!claim) {
+    // Take over a stale claim for the same request
+    [claim] = await db
+      .update(idempotencyKeys)
+      .set({ createdAt: claimedAt })
+      .where(
+        and(
+          eq(idempotencyKeys.userId, userId),
+          eq(idempotencyKeys.key, key),
+          eq(idempotencyKeys.endpoint, endpoint),
+          eq(idempotencyKeys.requestHash, requestHash),
+          isNull(idempotencyKeys.statusCode),
+          lt(idempotencyKeys.createdAt, new Date(claimedAt.getTime() - CLAIM_TTL_MS))
+        )
+      )
+      .returning({ id: idempotencyKeys.id });
+  }
+
+  if (!claim) {
+    const [existing] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+
+    if (existing && (existing.endpoint !== endpoint || existing.requestHash !== requestHash)) {
+      return NextResponse.json(
+        { success: false, error: "Idempotency-Key was already used for a different request" },
+        { status: 422 }
+      );
+    }
+    if (!existing || existing.statusCode === null) {
+      return NextResponse.json(
+        { success: false, error: "A request with this Idempotency-Key is still in progress" },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(existing.response, {
+      status: existing.statusCode,
+      headers: { "Idempotent-Replayed": "true" },
+    });
+  }
+
+  // Only touch the row while the claim is still ours
+  const ownClaim = and(
+    eq(idempotencyKeys.id, claim.id),
+    eq(idempotencyKeys.createdAt, claimedAt)
+  );
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await db.delete(idempotencyKeys).where(ownClaim);
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await db.delete(idempotencyKeys).where(ownClaim);
+    return response;
+  }
+
+  await db
+    .update(idempotencyKeys)
+    .set({ statusCode: response.status, response: await response.clone().json() })
+    .where(ownClaim);
+  return response;
+}
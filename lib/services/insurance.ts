@@ -0,0 +1,96 @@
+import { eq, and, sql } from "drizzle-orm";
+import type { Tx } from "@/lib/db";
+import { users, wallets, transactions } from "@/lib/db/schema";
+import { SYSTEM_ACCOUNT_EMAIL, SYSTEM_ACCOUNT_UID } from "@/lib/trading/constants";
+import * as dec from "@/lib/trading/decimal";
+
+/**
+ * The insurance fund is the system account's collateral wallets, and its
+ * history their `insurance_fund` transactions. A full liquidation pays in
+ * whatever the position leaves over; a loss past a position's margin is
+ * drawn from it, as far as the fund goes.
+ */
+
+/** The system account's id, created with its wallets on first use. */
+export async function getSystemAccountId(tx: Tx): Promise<string> {
+  const [existing] = await tx
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.firebaseUid, SYSTEM_ACCOUNT_UID));
+  if (existing) return existing.id;
+
+  await tx
+    .insert(users)
+    .values({ firebaseUid: SYSTEM_ACCOUNT_UID, email: SYSTEM_ACCOUNT_EMAIL })
+    .onConflictDoNothing();
+  const [user] = await tx
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.firebaseUid, SYSTEM_ACCOUNT_UID));
+  await tx
+    .insert(wallets)
+    .values([
+      { userId: user.id, currency: "USDT" },
+      { userId: user.id, currency: "USDC" },
+    ])
+    .onConflictDoNothing();
+  return user.id;
+}
+
+/** The fund's balance in the given currency. */
+export async function getInsuranceFundBalance(tx: Tx, currency: string): Promise<string> {
+  const systemAccountId = await getSystemAccountId(tx);
+  const [fund] = await tx
+    .select({ balance: wallets.balance })
+    .from(wallets)
+    .where(and(eq(wallets.userId, systemAccountId), eq(wallets.currency, currency)));
+  return fund?.balance ?? "0";
+}
+
+/**
+ * Pay a surplus into (positive) or draw a shortfall from (negative) the
+ * fund in the given currency. A draw stops at the fund's balance; returns
+ * the part of the shortfall left uncovered (zero or negative).
+ */
+export async function settleInsuranceFund(
+  tx: Tx,
+  currency: string,
+  amount: string,
+  referenceId: string,
+  description: string
+): Promise<string> {
+  const systemAccountId = await getSystemAccountId(tx);
+  const [fund] = await tx
+    .select()
+    .from(wallets)
+    .where(and(eq(wallets.userId, systemAccountId), eq(wallets.currency, currency)))
+    .for("update");
+  if (!fund) return dec.min(0, amount);
+
+  const settled = dec.max(amount, dec.neg(fund.balance));
+  if (!dec.isZero(settled)) {
+    const [updated] = await tx
+      .update(wallets)
+      .set({
+        balance: sql`${wallets.balance} + ${settled}::decimal`,
+        availableBalance: sql`${wallets.availableBalance} + ${settled}::decimal`,
+        updatedAt: new Date(),
+      })
+      .where(eq(wallets.id, fund.id))
+      .returning({ balance: wallets.balance });
+
+    await tx.insert(transactions).values({
+      userId: systemAccountId,
+      walletId: fund.id,
+      type: "insurance_fund",
+      currency,
+      amount: settled,
+      balanceAfter: updated.balance,
+      referenceId,
+      referenceType: "position",
+      description,
+    });
+  }
+
+  return dec.sub(amount, settled);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import * as dec from "@/lib/trading/decimal";
+import { getCutQuantity, getStepQuantity } from "./liquidation";
+
+describe("getStepQuantity", () => {
+  it("takes a quarter of the position, rounded down to the lot", () => {
+    expect(getStepQuantity({ contract: "XAU-PERP", quantity: "100" })).toBe("25.00000000");
+    expect(getStepQuantity({ contract: "XAU-PERP", quantity: "10" })).toBe("2.00000000");
+  });
+
+  it("takes at least the minimum quantity", () => {
+    expect(getStepQuantity({ contract: "XAU-PERP", quantity: "2" })).toBe("1.00000000");
+  });
+});
+
+describe("getCutQuantity", () => {
+  it("cuts one step while equity is left", () => {
+    expect(getCutQuantity({ quantity: "100" }, "25", "10")).toBe("25");
+  });
+
+  it("closes outright once no equity is left", () => {
+    expect(getCutQuantity({ quantity: "100" }, "25", "0")).toBe("100");
+    expect(getCutQuantity({ quantity: "100" }, "25", "-5")).toBe("100");
+  });
+
+  it("closes outright when a step would take it all", () => {
+    expect(getCutQuantity({ quantity: "20" }, "25", "10")).toBe("20");
+  });
+
+  it("steps a position down by the same cut and closes the last one outright", () => {
+    const stepQuantity = getStepQuantity({ contract: "XAU-PERP", quantity: "90" });
+    const cuts: string[] = [];
+    let quantity = "90";
+    while (dec.isPositive(quantity)) {
+      const cut = getCutQuantity({ quantity }, stepQuantity, "10");
+      cuts.push(dec.normalize(cut));
+      quantity = dec.sub(quantity, cut);
+    }
+    expect(cuts).toEqual([
+      "22.00000000",
+      "22.00000000",
+      "22.00000000",
+      "22.00000000",
+      "2.00000000",
+    ]);
+  });
+});
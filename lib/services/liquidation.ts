@@ -0,0 +1,664 @@
+import { eq, and, inArray, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type { Tx } from "@/lib/db";
+import {
+  liquidationEvents,
+  orders,
+  positions,
+  users,
+  wallets,
+  transactions,
+} from "@/lib/db/schema";
+import { LIQUIDATION_STEP_FRACTION, PAIRS } from "@/lib/trading/constants";
+import type { FuturesPair } from "@/lib/trading/constants";
+import type { LiquidationStep, Position } from "@/lib/trading/types";
+import * as dec from "@/lib/trading/decimal";
+import { roundQuantity } from "@/lib/trading/decimal";
+import {
+  calculateCrossMarginAccount,
+  getMarkPrices,
+  positionHealth,
+} from "./crossmargin";
+import { autoDeleverage } from "./adl";
+import {
+  getInsuranceFundBalance,
+  getSystemAccountId,
+  settleInsuranceFund,
+} from "./insurance";
+import {
+  calculateBankruptcyPrice,
+  calculateLiquidationPriceFromMargin,
+  calculateUnrealizedPnl,
+  isLiquidatable,
+} from "./margin";
+import { checkMarketAllows, getMarketState } from "./markets";
+import { matchOrder, pruneReduceOnlyOrders } from "./matching";
+import { cancelOrder, settleFill } from "./orders";
+import { lockOpenPosition } from "./positions";
+import { withOrderBook, withOrderBooks } from "./orderbook";
+import type { OrderBook } from "./orderbook";
+
+/**
+ * Staged liquidation sweep. An unhealthy position first loses the user's
+ * open orders on its contract, then is cut by LIQUIDATION_STEP_FRACTION at
+ * a time — the margin stays behind, so each cut lifts the margin ratio —
+ * until it is back above maintenance margin. It is only liquidated outright
+ * once no equity is left or a step would take it all.
+ * Every cut is a market order from the system account, matched against the
+ * book like any other; the makers' side settles normally. A full
+ * liquidation's leftover margin goes to the insurance fund (insurance.ts),
+ * and a loss past the margin is drawn from it. An outright close stops at
+ * the price the fund can still cover; what the book does not take by then
+ * is auto-deleveraged against the other side (adl.ts).
+ * Isolated positions are judged on their own margin; cross-margin accounts
+ * on their wallet plus every position on it (see crossmargin.ts), and all
+ * their positions are cut together. Every step is a liquidation event.
+ */
+
+export interface LiquidationResult {
+  liquidated: string[]; // closed outright
+  reduced: string[]; // cut back to health
+}
+
+interface LiquidationExecution {
+  filledQuantity: string;
+  averagePrice: string;
+  pnl: string;
+  fee: string;
+}
+
+function marginRatio(equity: string, maintenanceMargin: string): string | null {
+  return dec.isPositive(maintenanceMargin) ? dec.div(equity, maintenanceMargin) : null;
+}
+
+/** Contracts to close per step: a share of the position, at least one lot. */
+export function getStepQuantity(pos: Pick<Position, "contract" | "quantity">): string {
+  const pairConfig = PAIRS[pos.contract as FuturesPair];
+  return dec.max(
+    pairConfig.minQuantity,
+    roundQuantity(pos.contract as FuturesPair, dec.mul(pos.quantity, LIQUIDATION_STEP_FRACTION))
+  );
+}
+
+/**
+ * Contracts the next cut closes: one step, or the whole position once no
+ * equity is left or a step would take it all.
+ */
+export function getCutQuantity(
+  pos: Pick<Position, "quantity">,
+  stepQuantity: string,
+  equity: string
+): string {
+  return !dec.isPositive(equity) || dec.gte(stepQuantity, pos.quantity)
+    ? pos.quantity
+    : stepQuantity;
+}
+
+async function recordLiquidationEvent(
+  tx: Tx,
+  pos: Position,
+  event: {
+    step: LiquidationStep;
+    price: string;
+    remainingQuantity: string;
+    quantity?: string;
+    realizedPnl?: string;
+    ordersCancelled?: number;
+    marginRatio: string | null;
+  }
+): Promise<void> {
+  await tx.insert(liquidationEvents).values({
+    userId: pos.userId,
+    positionId: pos.id,
+    contract: pos.contract,
+    ...event,
+  });
+}
+
+/** Cancel every open order the user has on the contract. Returns how many. */
+async function cancelContractOrders(
+  tx: Tx,
+  book: OrderBook,
+  userId: string,
+  contract: string
+): Promise<number> {
+  const open = await tx
+    .select()
+    .from(orders)
+    .where(
+      and(
+        eq(orders.userId, userId),
+        eq(orders.pair, contract),
+        sql`${orders.status} IN ('pending', 'open', 'partial')`
+      )
+    )
+    .for("update");
+
+  for (const order of open) {
+    await cancelOrder(tx, book, order);
+  }
+  return open.length;
+}
+
+/**
+ * Close part of a position into the book with a market order from the
+ * system account, sweeping no further than the protection price.
+ * Returns null when nothing filled.
+ */
+async function executeLiquidationOrder(
+  tx: Tx,
+  book: OrderBook,
+  pos: Position,
+  quantity: string,
+  protectionPrice: string
+): Promise<LiquidationExecution | null> {
+  const contract = pos.contract as FuturesPair;
+  const systemAccountId = await getSystemAccountId(tx);
+  const side = pos.side === "long" ? "sell" : "buy";
+  const [order] = await tx
+    .insert(orders)
+    .values({
+      userId: systemAccountId,
+      pair: contract,
+      side,
+      type: "market",
+      quantity,
+      status: "open",
+      protectionPrice,
+      collateralCurrency: pos.collateralCurrency,
+      leverage: pos.leverage,
+    })
+    .returning();
+
+  const matchResult = await matchOrder(tx, book, {
+    id: order.id,
+    userId: systemAccountId,
+    pair: contract,
+    side,
+    type: "market",
+    price: null,
+    quantity,
+    protectionPrice,
+  });
+  for (const fill of matchResult.fills) {
+    await settleFill(tx, order, fill, { makerOnly: true });
+  }
+
+  const filledQuantity = dec.sub(quantity, matchResult.remainingQuantity);
+  await tx
+    .update(orders)
+    .set({ filledQuantity, status: matchResult.orderStatus, updatedAt: new Date() })
+    .where(eq(orders.id, order.id));
+
+  for (const userId of new Set(matchResult.fills.map((fill) => fill.makerUserId))) {
+    await pruneReduceOnlyOrders(tx, book, userId, contract);
+  }
+  if (!dec.isPositive(filledQuantity)) return null;
+
+  const { fills } = matchResult;
+  return {
+    filledQuantity,
+    averagePrice: dec.div(
+      dec.sum(fills.map((fill) => dec.mul(fill.price, fill.quantity))),
+      filledQuantity
+    ),
+    // PnL per fill, summed — no rounding through an average price
+    pnl: dec.sum(
+      fills.map((fill) =>
+        calculateUnrealizedPnl(
+          pos.side as "long" | "short",
+          pos.entryPrice,
+          fill.price,
+          fill.quantity,
+          PAIRS[contract].contractSize
+        )
+      )
+    ),
+    fee: dec.sum(fills.map((fill) => fill.takerFee)),
+  };
+}
+
+/**
+ * Book an execution against the liquidated position. Its PnL less the fee
+ * is realized into the margin, which otherwise stays with what is left; a
+ * position closed completely is marked liquidated. Returns the margin left
+ * after PnL — negative when the loss ran past it.
+ */
+async function applyLiquidationFill(
+  tx: Tx,
+  pos: Position,
+  execution: LiquidationExecution
+): Promise<{ position: Position; marginAfter: string }> {
+  const pairConfig = PAIRS[pos.contract as FuturesPair];
+  const marginAfter = dec.sub(dec.add(pos.margin, execution.pnl), execution.fee);
+  const remainingQuantity = dec.sub(pos.quantity, execution.filledQuantity);
+  const margin = dec.max(0, marginAfter);
+
+  const [position] = await tx
+    .update(positions)
+    .set({
+      quantity: remainingQuantity,
+      ...(dec.isZero(remainingQuantity)
+        ? { status: "liquidated", takeProfitPrice: null, stopLossPrice: null }
+        : {
+            margin,
+            liquidationPrice: calculateLiquidationPriceFromMargin(
+              pos.entryPrice,
+              pos.side as "long" | "short",
+              remainingQuantity,
+              pairConfig.contractSize,
+              margin,
+              pairConfig.riskTiers
+            ),
+          }),
+      realizedPnl: sql`${positions.realizedPnl} + ${execution.pnl}::decimal`,
+      updatedAt: new Date(),
+    })
+    .where(eq(positions.id, pos.id))
+    .returning();
+
+  return { position, marginAfter };
+}
+
+/**
+ * Charge a cross account's wallet for a liquidation loss past its
+ * positions' margin, never below zero. Returns what it could not cover.
+ */
+async function chargeCrossWallet(tx: Tx, pos: Position, amount: string): Promise<string> {
+  const [wallet] = await tx
+    .select()
+    .from(wallets)
+    .where(and(eq(wallets.userId, pos.userId), eq(wallets.currency, pos.collateralCurrency)))
+    .for("update");
+  if (!wallet) return amount;
+
+  const settled = dec.max(amount, dec.neg(wallet.balance));
+  if (dec.isZero(settled)) return amount;
+
+  const [updated] = await tx
+    .update(wallets)
+    .set({
+      balance: sql`${wallets.balance} + ${settled}::decimal`,
+      availableBalance: sql`${wallets.availableBalance} + ${settled}::decimal`,
+      updatedAt: new Date(),
+    })
+    .where(eq(wallets.id, wallet.id))
+    .returning({ balance: wallets.balance });
+
+  await tx.insert(transactions).values({
+    userId: pos.userId,
+    walletId: wallet.id,
+    type: "liquidation",
+    currency: pos.collateralCurrency,
+    amount: settled,
+    balanceAfter: updated.balance,
+    referenceId: pos.id,
+    referenceType: "position",
+    description: `Loss past margin on liquidation of ${pos.contract} ${pos.side} position`,
+  });
+
+  return dec.sub(amount, settled);
+}
+
+/**
+ * Settle what a liquidation step leaves: a full liquidation's surplus goes
+ * to the insurance fund; a loss past the margin is charged to a cross
+ * account's wallet first, then drawn from the fund as far as it goes.
+ */
+async function settleLiquidation(
+  tx: Tx,
+  pos: Position,
+  amount: string,
+  crossMargin: boolean
+): Promise<void> {
+  let remaining = amount;
+  if (dec.isNegative(remaining) && crossMargin) {
+    remaining = await chargeCrossWallet(tx, pos, remaining);
+  }
+  if (dec.isZero(remaining)) return;
+
+  await settleInsuranceFund(
+    tx,
+    pos.collateralCurrency,
+    remaining,
+    pos.id,
+    dec.isPositive(remaining)
+      ? `Surplus from liquidation of ${pos.contract} ${pos.side} position`
+      : `Loss past margin on liquidation of ${pos.contract} ${pos.side} position`
+  );
+}
+
+/**
+ * Book an execution, record it as a partial, full or ADL step and settle
+ * what it leaves. Returns the position as it now stands.
+ */
+async function applyLiquidationStep(
+  tx: Tx,
+  pos: Position,
+  execution: LiquidationExecution,
+  markPrice: string,
+  crossMargin: boolean,
+  deleveraged = false
+): Promise<Position> {
+  const { position, marginAfter } = await applyLiquidationFill(tx, pos, execution);
+  const closed = position.status === "liquidated";
+  const health = positionHealth(position, markPrice);
+
+  await recordLiquidationEvent(tx, position, {
+    step: deleveraged ? "adl" : closed ? "full" : "partial",
+    price: execution.averagePrice,
+    quantity: execution.filledQuantity,
+    remainingQuantity: position.quantity,
+    realizedPnl: execution.pnl,
+    marginRatio: closed
+      ? null
+      : marginRatio(dec.add(position.margin, health.unrealizedPnl), health.maintenanceMargin),
+  });
+  await settleLiquidation(tx, position, closed ? marginAfter : dec.min(0, marginAfter), crossMargin);
+
+  return position;
+}
+
+/**
+ * The worst price a cut can fill at before the position's loss outruns its
+ * margin plus what stands behind it — a cross account's wallet, then the
+ * insurance fund.
+ */
+async function getCoveredPrice(tx: Tx, pos: Position, crossMargin: boolean): Promise<string> {
+  let cover = await getInsuranceFundBalance(tx, pos.collateralCurrency);
+  if (crossMargin) {
+    const [wallet] = await tx
+      .select({ balance: wallets.balance })
+      .from(wallets)
+      .where(and(eq(wallets.userId, pos.userId), eq(wallets.currency, pos.collateralCurrency)));
+    cover = dec.add(cover, dec.max(0, wallet?.balance ?? "0"));
+  }
+  return calculateBankruptcyPrice(
+    pos.entryPrice,
+    pos.side as "long" | "short",
+    pos.quantity,
+    PAIRS[pos.contract as FuturesPair].contractSize,
+    dec.add(pos.margin, cover)
+  );
+}
+
+/**
+ * One step: cut `quantity` of the position into the book, no further than
+ * the covered price. What an outright close leaves is auto-deleveraged at
+ * the bankruptcy price. Returns the position as it now stands, or null when
+ * nothing executed — the market is not taking market orders, or neither the
+ * book nor the ADL queue had anything — and it is left for the next sweep.
+ */
+async function liquidateStep(
+  tx: Tx,
+  book: OrderBook,
+  pos: Position,
+  quantity: string,
+  markPrice: string,
+  crossMargin: boolean
+): Promise<Position | null> {
+  const contract = pos.contract as FuturesPair;
+  if (checkMarketAllows(await getMarketState(contract, tx), "place", { type: "market" })) {
+    return null;
+  }
+
+  const closeAll = dec.gte(quantity, pos.quantity);
+  const execution = await executeLiquidationOrder(
+    tx,
+    book,
+    pos,
+    quantity,
+    await getCoveredPrice(tx, pos, crossMargin)
+  );
+  let position = execution
+    ? await applyLiquidationStep(tx, pos, execution, markPrice, crossMargin)
+    : null;
+  if (!closeAll || position?.status === "liquidated") return position;
+
+  const remaining = position ?? pos;
+  const pairConfig = PAIRS[contract];
+  const bankruptcyPrice = calculateBankruptcyPrice(
+    remaining.entryPrice,
+    remaining.side as "long" | "short",
+    remaining.quantity,
+    pairConfig.contractSize,
+    remaining.margin
+  );
+  const filledQuantity = await autoDeleverage(
+    tx,
+    book,
+    remaining,
+    remaining.quantity,
+    bankruptcyPrice,
+    markPrice
+  );
+  if (dec.isPositive(filledQuantity)) {
+    position = await applyLiquidationStep(
+      tx,
+      remaining,
+      {
+        filledQuantity,
+        averagePrice: bankruptcyPrice,
+        pnl: calculateUnrealizedPnl(
+          remaining.side as "long" | "short",
+          remaining.entryPrice,
+          bankruptcyPrice,
+          filledQuantity,
+          pairConfig.contractSize
+        ),
+        fee: "0",
+      },
+      markPrice,
+      crossMargin,
+      true
+    );
+  }
+  return position;
+}
+
+async function liquidateIsolated(
+  contract: FuturesPair,
+  positionId: string,
+  markPrice: string
+): Promise<keyof LiquidationResult | null> {
+  return withOrderBook(contract, async (book, tx) => {
+    let pos = await lockOpenPosition(tx, positionId);
+    if (!pos) return null;
+
+    let health = positionHealth(pos, markPrice);
+    if (!isLiquidatable(pos.margin, health.unrealizedPnl, health.maintenanceMargin)) {
+      return null;
+    }
+
+    const ordersCancelled = await cancelContractOrders(tx, book, pos.userId, contract);
+    if (ordersCancelled > 0) {
+      await recordLiquidationEvent(tx, pos, {
+        step: "orders_cancelled",
+        price: markPrice,
+        remainingQuantity: pos.quantity,
+        ordersCancelled,
+        marginRatio: marginRatio(
+          dec.add(pos.margin, health.unrealizedPnl),
+          health.maintenanceMargin
+        ),
+      });
+    }
+
+    const stepQuantity = getStepQuantity(pos);
+    let outcome: keyof LiquidationResult | null = null;
+    while (isLiquidatable(pos.margin, health.unrealizedPnl, health.maintenanceMargin)) {
+      const quantity = getCutQuantity(
+        pos,
+        stepQuantity,
+        dec.add(pos.margin, health.unrealizedPnl)
+      );
+
+      const position = await liquidateStep(tx, book, pos, quantity, markPrice, false);
+      if (!position) break;
+
+      pos = position;
+      if (pos.status === "liquidated") return "liquidated";
+      outcome = "reduced";
+      health = positionHealth(pos, markPrice);
+    }
+    return outcome;
+  });
+}
+
+async function liquidateCrossAccount(
+  userId: string,
+  collateralCurrency: string,
+  contracts: string[]
+): Promise<LiquidationResult> {
+  const markPrices = await getMarkPrices(contracts);
+  const result: LiquidationResult = { liquidated: [], reduced: [] };
+
+  return withOrderBooks(contracts, async (books, tx) => {
+    const loadAccount = async () => {
+      // Wallet before positions, the order the order path locks them in
+      const [wallet] = await tx
+        .select({ availableBalance: wallets.availableBalance })
+        .from(wallets)
+        .where(and(eq(wallets.userId, userId), eq(wallets.currency, collateralCurrency)))
+        .for("update");
+      const openPositions = await tx
+        .select()
+        .from(positions)
+        .where(
+          and(
+            eq(positions.userId, userId),
+            eq(positions.collateralCurrency, collateralCurrency),
+            eq(positions.status, "open"),
+            inArray(positions.contract, contracts)
+          )
+        )
+        .for("update");
+      const account = calculateCrossMarginAccount(
+        collateralCurrency,
+        wallet?.availableBalance ?? "0",
+        openPositions,
+        markPrices
+      );
+      return { openPositions, account };
+    };
+
+    // Re-check against the locked rows — a deposit may have saved the account
+    let { openPositions, account } = await loadAccount();
+    if (openPositions.length === 0 || !account.liquidatable) return result;
+
+    for (const contract of contracts) {
+      const ordersCancelled = await cancelContractOrders(
+        tx,
+        books.get(contract)!,
+        userId,
+        contract
+      );
+      const pos = openPositions.find((p) => p.contract === contract);
+      if (ordersCancelled > 0 && pos) {
+        await recordLiquidationEvent(tx, pos, {
+          step: "orders_cancelled",
+          price: markPrices.get(contract)!,
+          remainingQuantity: pos.quantity,
+          ordersCancelled,
+          marginRatio: marginRatio(account.equity, account.maintenanceMargin),
+        });
+      }
+    }
+
+    const stepQuantities = new Map(openPositions.map((pos) => [pos.id, getStepQuantity(pos)]));
+    const reduced = new Set<string>();
+    while (openPositions.length > 0 && account.liquidatable) {
+      let executed = false;
+
+      // Cut every position by its step; one a step would take all of is closed
+      for (const pos of openPositions) {
+        const position = await liquidateStep(
+          tx,
+          books.get(pos.contract)!,
+          pos,
+          getCutQuantity(pos, stepQuantities.get(pos.id)!, account.equity),
+          markPrices.get(pos.contract)!,
+          true
+        );
+        if (!position) continue;
+        executed = true;
+
+        if (position.status === "liquidated") {
+          result.liquidated.push(pos.id);
+        } else {
+          reduced.add(pos.id);
+        }
+      }
+
+      // Nothing executed anywhere — what is left waits for the next sweep
+      if (!executed) break;
+      ({ openPositions, account } = await loadAccount());
+    }
+
+    result.reduced = openPositions
+      .map((pos) => pos.id)
+      .filter((id) => reduced.has(id));
+    return result;
+  });
+}
+
+/**
+ * Liquidate what the contract's mark price has pushed below maintenance
+ * margin. Cross accounts holding the contract are checked across all their
+ * positions, at every contract's mark.
+ * Called by the /api/trading/liquidate endpoint (cron/manual).
+ */
+export async function processLiquidations(
+  contract: FuturesPair
+): Promise<LiquidationResult> {
+  const openPositions = await db
+    .select({ position: positions, marginMode: users.marginMode })
+    .from(positions)
+    .innerJoin(users, eq(users.id, positions.userId))
+    .where(and(eq(positions.contract, contract), eq(positions.status, "open")));
+
+  const markPrices = await getMarkPrices([contract]);
+  const markPrice = markPrices.get(contract)!;
+  const result: LiquidationResult = { liquidated: [], reduced: [] };
+
+  for (const { position: pos, marginMode } of openPositions) {
+    if (marginMode === "cross") continue;
+
+    const { unrealizedPnl, maintenanceMargin } = positionHealth(pos, markPrice);
+    if (!isLiquidatable(pos.margin, unrealizedPnl, maintenanceMargin)) continue;
+
+    const outcome = await liquidateIsolated(contract, pos.id, markPrice);
+    if (outcome) result[outcome].push(pos.id);
+  }
+
+  // One check per cross account, over every contract it holds
+  const crossAccounts = new Map<string, { userId: string; currency: string }>();
+  for (const { position: pos, marginMode } of openPositions) {
+    if (marginMode !== "cross") continue;
+    crossAccounts.set(`${pos.userId}:${pos.collateralCurrency}`, {
+      userId: pos.userId,
+      currency: pos.collateralCurrency,
+    });
+  }
+
+  for (const { userId, currency } of crossAccounts.values()) {
+    const accountPositions = await db
+      .select({ contract: positions.contract })
+      .from(positions)
+      .where(
+        and(
+          eq(positions.userId, userId),
+          eq(positions.collateralCurrency, currency),
+          eq(positions.status, "open")
+        )
+      );
+    const contracts = [...new Set(accountPositions.map((pos) => pos.contract))];
+    if (contracts.length === 0) continue;
+
+    const accountResult = await liquidateCrossAccount(userId, currency, contracts);
+    result.liquidated.push(...accountResult.liquidated);
+    result.reduced.push(...accountResult.reduced);
+  }
+
+  return result;
+}
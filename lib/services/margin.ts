@@ -1,54 +1,138 @@
+import * as dec from "@/lib/trading/decimal";
+import type { Numeric } from "@/lib/trading/decimal";
+import { getRiskTier } from "@/lib/trading/risk";
+import type { RiskTier } from "@/lib/trading/risk";
+
 /**
  * Margin calculation utilities for futures trading.
- * All functions are pure — no DB access. Values are strings for DECIMAL precision.
+ * All functions are pure — no DB access. Values are decimal strings; anything
+ * the trader owes rounds up, anything owed to the trader rounds down.
+ * Maintenance margin rates come from the contract's risk tiers, by notional.
  */
 
 export function calculateNotional(
   quantity: string,
   contractSize: string,
-  price: string
-): number {
-  return parseFloat(quantity) * parseFloat(contractSize) * parseFloat(price);
+  price: string,
+  rounding: dec.Rounding = "half_up"
+): string {
+  return dec.product([quantity, contractSize, price], rounding);
 }
 
 export function calculateInitialMargin(
   quantity: string,
   contractSize: string,
   price: string,
-  leverage: number
-): number {
-  const notional = calculateNotional(quantity, contractSize, price);
-  return notional / leverage;
+  leverage: Numeric
+): string {
+  const notional = calculateNotional(quantity, contractSize, price, "ceil");
+  return dec.div(notional, leverage, "ceil");
 }
 
 export function calculateMaintenanceMargin(
   quantity: string,
   contractSize: string,
   markPrice: string,
-  maintenanceMarginRate: string
-): number {
-  const notional = calculateNotional(quantity, contractSize, markPrice);
-  return notional * parseFloat(maintenanceMarginRate);
+  riskTiers: readonly RiskTier[]
+): string {
+  const notional = calculateNotional(quantity, contractSize, markPrice, "ceil");
+  const { maintenanceMarginRate } = getRiskTier(riskTiers, notional);
+  return dec.mul(notional, maintenanceMarginRate, "ceil");
+}
+
+/** Initial margin a position of this notional must hold: notional over its tier's max leverage. */
+export function calculateTierInitialMargin(
+  quantity: string,
+  contractSize: string,
+  price: string,
+  riskTiers: readonly RiskTier[]
+): string {
+  const notional = calculateNotional(quantity, contractSize, price, "ceil");
+  return dec.div(notional, getRiskTier(riskTiers, notional).maxLeverage, "ceil");
 }
 
+/** Liquidation price for a position opened at the given leverage, on its initial margin. */
 export function calculateLiquidationPrice(
   entryPrice: string,
   side: "long" | "short",
-  leverage: number,
-  maintenanceMarginRate: string
-): number {
-  const entry = parseFloat(entryPrice);
-  const mmr = parseFloat(maintenanceMarginRate);
-  // Distance from entry before maintenance margin is breached
-  const factor = 1 / leverage - mmr;
+  leverage: Numeric,
+  quantity: string,
+  contractSize: string,
+  riskTiers: readonly RiskTier[]
+): string {
+  return calculateLiquidationPriceFromMargin(
+    entryPrice,
+    side,
+    quantity,
+    contractSize,
+    calculateInitialMargin(quantity, contractSize, entryPrice, leverage),
+    riskTiers
+  );
+}
+
+/**
+ * Liquidation price from the margin a position actually holds: the mark at
+ * which margin plus unrealized PnL meets maintenance margin. The rate is
+ * that of the tier the position's notional falls in at that mark, as in
+ * calculateMaintenanceMargin. Unlike calculateLiquidationPrice this follows
+ * margin added or removed after opening. Floored at zero for a long that
+ * cannot be liquidated.
+ */
+export function calculateLiquidationPriceFromMargin(
+  entryPrice: string,
+  side: "long" | "short",
+  quantity: string,
+  contractSize: string,
+  margin: string,
+  riskTiers: readonly RiskTier[]
+): string {
+  const size = dec.mul(quantity, contractSize);
+  const entryValue = dec.mul(size, entryPrice);
+  const solve = ({ maintenanceMarginRate }: RiskTier) =>
+    side === "long"
+      ? // margin + (P − E)·size = mmr·P·size  →  P = (E·size − margin) / (size·(1 − mmr))
+        dec.max(
+          0,
+          dec.div(
+            dec.sub(entryValue, margin),
+            dec.mul(size, dec.sub(1, maintenanceMarginRate)),
+            "ceil"
+          )
+        )
+      : // margin + (E − P)·size = mmr·P·size  →  P = (E·size + margin) / (size·(1 + mmr))
+        dec.div(
+          dec.add(entryValue, margin),
+          dec.mul(size, dec.add(1, maintenanceMarginRate)),
+          "floor"
+        );
+
+  // Solve with each tier's rate and keep the prices that land in that tier
+  const prices = riskTiers
+    .map((tier) => ({ tier, price: solve(tier) }))
+    .filter(
+      ({ tier, price }) =>
+        getRiskTier(riskTiers, calculateNotional(quantity, contractSize, price, "ceil")) === tier
+    )
+    .map(({ price }) => price);
+  if (prices.length === 0) return solve(riskTiers[0]);
+
+  // The first one reached as the price moves against the position
+  return prices.reduce((a, b) => (side === "long" ? dec.max(a, b) : dec.min(a, b)));
+}
 
-  if (side === "long") {
-    // Long liquidated when price drops
-    return entry * (1 - factor);
-  } else {
-    // Short liquidated when price rises
-    return entry * (1 + factor);
-  }
+/**
+ * Bankruptcy price: where unrealized PnL takes exactly the given margin.
+ * Floored at zero for a long whose margin covers its whole value.
+ */
+export function calculateBankruptcyPrice(
+  entryPrice: string,
+  side: "long" | "short",
+  quantity: string,
+  contractSize: string,
+  margin: string
+): string {
+  const move = dec.div(margin, dec.mul(quantity, contractSize));
+  return side === "long" ? dec.max(0, dec.sub(entryPrice, move)) : dec.add(entryPrice, move);
 }
 
 export function calculateUnrealizedPnl(
@@ -57,23 +141,16 @@ export function calculateUnrealizedPnl(
   markPrice: string,
   quantity: string,
   contractSize: string
-): number {
-  const entry = parseFloat(entryPrice);
-  const mark = parseFloat(markPrice);
-  const qty = parseFloat(quantity);
-  const cs = parseFloat(contractSize);
-
-  if (side === "long") {
-    return (mark - entry) * qty * cs;
-  } else {
-    return (entry - mark) * qty * cs;
-  }
+): string {
+  const priceMove =
+    side === "long" ? dec.sub(markPrice, entryPrice) : dec.sub(entryPrice, markPrice);
+  return dec.product([priceMove, quantity, contractSize], "floor");
 }
 
 export function isLiquidatable(
   margin: string,
-  unrealizedPnl: number,
-  maintenanceMargin: number
+  unrealizedPnl: string,
+  maintenanceMargin: string
 ): boolean {
-  return parseFloat(margin) + unrealizedPnl < maintenanceMargin;
+  return dec.lt(dec.add(margin, unrealizedPnl), maintenanceMargin);
 }
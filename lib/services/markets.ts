@@ -0,0 +1,213 @@
+import { eq, and, or, gt, lte, asc, desc } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type { Tx } from "@/lib/db";
+import { markets, trades } from "@/lib/db/schema";
+import {
+  PAIRS,
+  CALL_AUCTION_MINUTES,
+  CIRCUIT_BREAKER_HALT_MINUTES,
+} from "@/lib/trading/constants";
+import type { PairKey } from "@/lib/trading/constants";
+import type { MarketStatus } from "@/lib/trading/types";
+import * as dec from "@/lib/trading/decimal";
+
+/**
+ * Per-market trading status. Every market is open unless an admin or the
+ * circuit breaker says otherwise:
+ *   cancel-only — nothing new, resting orders can still be cancelled
+ *   post-only   — only resting limit orders that do not cross the book
+ *   halted      — no placement, amendment, cancellation or closing
+ *   auction     — resting limit orders are collected, nothing matches
+ * resumesAt ends a status on its own: a halt then becomes a re-opening
+ * auction, and an auction is uncrossed by the auction sweep.
+ */
+
+export interface MarketState {
+  pair: PairKey;
+  status: MarketStatus;
+  reason: string | null;
+  resumesAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export type MarketAction = "place" | "amend" | "cancel" | "close";
+
+function toMarketState(
+  pair: PairKey,
+  row: typeof markets.$inferSelect | undefined
+): MarketState {
+  if (!row) {
+    return { pair, status: "open", reason: null, resumesAt: null, updatedAt: null };
+  }
+  // A circuit-breaker halt whose time is up has moved on to a re-opening auction
+  if (row.status === "halted" && row.resumesAt && row.resumesAt <= new Date()) {
+    return {
+      pair,
+      status: "auction",
+      reason: "Re-opening auction after a circuit-breaker halt",
+      resumesAt: new Date(row.resumesAt.getTime() + CALL_AUCTION_MINUTES * 60 * 1000),
+      updatedAt: row.updatedAt,
+    };
+  }
+  return {
+    pair,
+    status: row.status as MarketStatus,
+    reason: row.reason,
+    resumesAt: row.resumesAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/** Current status of a market. Pass the transaction when matching inside one. */
+export async function getMarketState(
+  pair: PairKey,
+  executor: Tx | typeof db = db
+): Promise<MarketState> {
+  const [row] = await executor
+    .select()
+    .from(markets)
+    .where(eq(markets.pair, pair));
+  return toMarketState(pair, row);
+}
+
+export async function getMarketStates(): Promise<MarketState[]> {
+  const rows = await db.select().from(markets);
+  return (Object.keys(PAIRS) as PairKey[]).map((pair) =>
+    toMarketState(pair, rows.find((row) => row.pair === pair))
+  );
+}
+
+export async function setMarketStatus(
+  executor: Tx | typeof db,
+  pair: PairKey,
+  change: {
+    status: MarketStatus;
+    reason?: string | null;
+    resumesAt?: Date | null;
+    updatedBy?: string | null;
+  }
+): Promise<MarketState> {
+  const values = {
+    status: change.status,
+    reason: change.reason ?? null,
+    resumesAt: change.resumesAt ?? null,
+    updatedBy: change.updatedBy ?? null,
+    updatedAt: new Date(),
+  };
+  const [row] = await executor
+    .insert(markets)
+    .values({ pair, ...values })
+    .onConflictDoUpdate({ target: markets.pair, set: values })
+    .returning();
+  return toMarketState(pair, row);
+}
+
+/**
+ * Whether a market's status allows an action. Returns the rejection
+ * message, or null. Placement also needs the order's execution type and
+ * time in force: post-only and auction markets only take orders that rest.
+ */
+export function checkMarketAllows(
+  market: Pick<MarketState, "pair" | "status">,
+  action: MarketAction,
+  order?: { type: string; timeInForce?: string }
+): string | null {
+  const { pair, status } = market;
+  switch (status) {
+    case "open":
+      return null;
+    case "halted":
+      return `${pair} market is halted`;
+    case "cancel-only":
+      return action === "cancel" ? null : `${pair} market is cancel-only`;
+    case "post-only":
+    case "auction": {
+      if (action === "cancel" || action === "amend") return null;
+      const rests =
+        order !== undefined &&
+        (order.type === "limit" || order.type === "stop_limit") &&
+        (order.timeInForce === undefined ||
+          ["gtc", "gtd", "post_only"].includes(order.timeInForce));
+      return rests
+        ? null
+        : `${pair} market is ${status === "auction" ? "in auction" : "post-only"} — only resting limit orders are accepted`;
+    }
+  }
+}
+
+/** Throw unless the market's current status allows the action. */
+export async function assertMarketAllows(
+  pair: PairKey,
+  action: MarketAction,
+  order?: { type: string; timeInForce?: string }
+): Promise<void> {
+  const error = checkMarketAllows(await getMarketState(pair), action, order);
+  if (error) throw new Error(error);
+}
+
+/**
+ * The circuit breaker's reference: the last trade price from no more than
+ * one window before the pair's window, or failing that the first trade
+ * inside it — so only a move within about the window counts. A later
+ * auction clearing price wins: a market reopening from an auction is
+ * measured from the price it reopened at. Null, and no check, for a market
+ * that has not traded that recently.
+ */
+export async function getCircuitBreakerReference(
+  tx: Tx,
+  pair: PairKey
+): Promise<string | null> {
+  const windowMs = PAIRS[pair].circuitBreakerWindowMinutes * 60 * 1000;
+  const windowStart = new Date(Date.now() - windowMs);
+  const lookback = new Date(windowStart.getTime() - windowMs);
+
+  const [before] = await tx
+    .select({ price: trades.price })
+    .from(trades)
+    .where(
+      and(
+        eq(trades.pair, pair),
+        gt(trades.createdAt, lookback),
+        or(lte(trades.createdAt, windowStart), eq(trades.auction, true))
+      )
+    )
+    .orderBy(desc(trades.createdAt))
+    .limit(1);
+  if (before) return before.price;
+
+  const [first] = await tx
+    .select({ price: trades.price })
+    .from(trades)
+    .where(and(eq(trades.pair, pair), gt(trades.createdAt, windowStart)))
+    .orderBy(asc(trades.createdAt))
+    .limit(1);
+  return first?.price ?? null;
+}
+
+/** Whether trading at this price would move the market past its circuit breaker. */
+export function breachesCircuitBreaker(
+  pair: PairKey,
+  referencePrice: string,
+  price: string
+): boolean {
+  const move = dec.abs(dec.div(dec.sub(price, referencePrice), referencePrice));
+  return dec.gt(move, PAIRS[pair].circuitBreakerMove);
+}
+
+/**
+ * Halt a market for CIRCUIT_BREAKER_HALT_MINUTES after an outsized move. It
+ * reopens through a call auction.
+ */
+export async function tripCircuitBreaker(
+  tx: Tx,
+  pair: PairKey,
+  referencePrice: string,
+  price: string
+): Promise<MarketState> {
+  const move = dec.div(dec.sub(price, referencePrice), referencePrice);
+  return setMarketStatus(tx, pair, {
+    status: "halted",
+    reason: `Circuit breaker: price moved ${(dec.toNumber(move) * 100).toFixed(2)}% in ${PAIRS[pair].circuitBreakerWindowMinutes} minutes`,
+    resumesAt: new Date(Date.now() + CIRCUIT_BREAKER_HALT_MINUTES * 60 * 1000),
+  });
+}
@@ -0,0 +1,245 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Param } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import type { Tx } from "@/lib/db";
+import { getMarketState } from "./markets";
+import { matchOrder } from "./matching";
+import { OrderBook } from "./orderbook";
+
+vi.mock("./markets", () => ({
+  getMarketState: vi.fn(),
+  checkMarketAllows: () => null,
+  getCircuitBreakerReference: async () => null,
+  breachesCircuitBreaker: () => false,
+  tripCircuitBreaker: vi.fn(),
+}));
+
+type Row = Record<string, unknown>;
+
+/** The order id an `eq(orders.id, …)` condition filters on. */
+function idOf(condition: SQL): string {
+  return (condition.queryChunks.find((chunk) => chunk instanceof Param) as Param).value as string;
+}
+
+/** Just enough of a transaction for matching: order rows by id, updated in place. */
+function fakeTx(rows: Map<string, Row>): Tx {
+  return {
+    select: () => ({
+      from: () => ({
+        where: (condition: SQL) => ({ for: async () => [rows.get(idOf(condition))] }),
+      }),
+    }),
+    update: () => ({
+      set: (values: Row) => ({
+        where: async (condition: SQL) => {
+          Object.assign(rows.get(idOf(condition))!, values);
+        },
+      }),
+    }),
+  } as unknown as Tx;
+}
+
+let book: OrderBook;
+let rows: Map<string, Row>;
+let tx: Tx;
+
+/** Rest an order in the book (and its row in the fake DB), returning its id. */
+function rest(userId: string, side: "buy" | "sell", price: string, quantity: string): string {
+  const id = `order-${rows.size + 1}`;
+  const order = { id, userId, side, price, quantity, filledQuantity: "0" };
+  rows.set(id, { ...order, status: "open", reservedAmount: "0", reservedCurrency: null });
+  book.add({ ...order, displayQuantity: null, createdAt: new Date() });
+  return id;
+}
+
+function buy(
+  quantity: string,
+  price: string | null,
+  options: Partial<Parameters<typeof matchOrder>[2]> = {}
+) {
+  return matchOrder(tx, book, {
+    id: "incoming",
+    userId: "taker",
+    pair: "XAU-PERP",
+    side: "buy",
+    type: price === null ? "market" : "limit",
+    price,
+    quantity,
+    ...options,
+  });
+}
+
+beforeEach(() => {
+  book = new OrderBook("XAU-PERP");
+  rows = new Map();
+  tx = fakeTx(rows);
+  vi.mocked(getMarketState).mockResolvedValue({
+    pair: "XAU-PERP",
+    status: "open",
+    reason: null,
+    resumesAt: null,
+    updatedAt: null,
+  });
+  rest("maker", "sell", "2650", "2");
+  rest("maker", "sell", "2651", "2");
+  rest("maker", "sell", "2652", "5");
+});
+
+describe("matchOrder time in force", () => {
+  it("fills at the makers' prices and rests a gtc remainder", async () => {
+    const result = await buy("5", "2651");
+    expect(result.fills.map((f) => [f.price, f.quantity])).toEqual([
+      ["2650.00000000", "2.00000000"],
+      ["2651.00000000", "2.00000000"],
+    ]);
+    expect(result).toMatchObject({ remainingQuantity: "1.00000000", orderStatus: "partial" });
+    expect(book.bestPrice("sell")).toBe("2652.00000000");
+  });
+
+  it("rests an order that crosses nothing", async () => {
+    expect(await buy("5", "2649")).toMatchObject({ fills: [], orderStatus: "open" });
+  });
+
+  it("cancels an ioc remainder", async () => {
+    expect(await buy("5", "2651", { timeInForce: "ioc" })).toMatchObject({
+      remainingQuantity: "1.00000000",
+      orderStatus: "cancelled",
+    });
+  });
+
+  it("fills fok completely or not at all", async () => {
+    const rejected = await buy("5", "2651", { timeInForce: "fok" });
+    expect(rejected).toMatchObject({ fills: [], orderStatus: "cancelled" });
+    expect(book.bestPrice("sell")).toBe("2650.00000000");
+
+    const filled = await buy("5", "2652", { timeInForce: "fok" });
+    expect(filled).toMatchObject({ remainingQuantity: "0.00000000", orderStatus: "filled" });
+    expect(filled.fills).toHaveLength(3);
+  });
+
+  it("rejects a post-only order that would take liquidity", async () => {
+    await expect(buy("1", "2650", { timeInForce: "post_only" })).rejects.toThrow(
+      "Post-only order would cross the book"
+    );
+    expect(await buy("1", "2649.99", { timeInForce: "post_only" })).toMatchObject({
+      orderStatus: "open",
+    });
+  });
+
+  it("treats every order as post-only while the market is post-only", async () => {
+    vi.mocked(getMarketState).mockResolvedValueOnce({
+      pair: "XAU-PERP",
+      status: "post-only",
+      reason: null,
+      resumesAt: null,
+      updatedAt: null,
+    });
+    await expect(buy("1", "2650")).rejects.toThrow("Post-only order would cross the book");
+  });
+
+  it("rests without matching during an auction", async () => {
+    vi.mocked(getMarketState).mockResolvedValueOnce({
+      pair: "XAU-PERP",
+      status: "auction",
+      reason: null,
+      resumesAt: null,
+      updatedAt: null,
+    });
+    expect(await buy("5", "2652")).toMatchObject({ fills: [], orderStatus: "open" });
+  });
+
+  it("stops a market order's sweep at its protection price and cancels the rest", async () => {
+    const result = await buy("10", null, { protectionPrice: "2651" });
+    expect(result.fills).toHaveLength(2);
+    expect(result).toMatchObject({ remainingQuantity: "6.00000000", orderStatus: "cancelled" });
+  });
+
+  it("marks the makers' rows filled", async () => {
+    await buy("3", "2651");
+    expect(rows.get("order-1")).toMatchObject({ status: "filled" });
+    expect(rows.get("order-2")).toMatchObject({
+      status: "partial",
+      filledQuantity: "1.00000000",
+    });
+  });
+});
+
+describe("matchOrder self-trade prevention", () => {
+  // The taker's own ask sits between two others: 2650 ×2, own 2651 ×3, 2652 ×5
+  let own: string;
+
+  beforeEach(() => {
+    book = new OrderBook("XAU-PERP");
+    rows = new Map();
+    tx = fakeTx(rows);
+    rest("maker", "sell", "2650", "2");
+    own = rest("taker", "sell", "2651", "3");
+    rest("maker", "sell", "2652", "5");
+  });
+
+  it("cancels the incoming remainder by default", async () => {
+    const result = await buy("10", "2652");
+    expect(result.fills).toHaveLength(1);
+    expect(result).toMatchObject({
+      orderStatus: "cancelled",
+      selfTrade: { mode: "cancel_newest", cancelledOrderIds: [], takerCancelled: true },
+    });
+    expect(book.get(own)).toBeDefined();
+  });
+
+  it("cancels the resting order and keeps sweeping under cancel_oldest", async () => {
+    const result = await buy("10", "2652", { stpMode: "cancel_oldest" });
+    expect(result.fills.map((f) => f.quantity)).toEqual(["2.00000000", "5.00000000"]);
+    expect(result).toMatchObject({
+      remainingQuantity: "3.00000000",
+      orderStatus: "partial",
+      selfTrade: { cancelledOrderIds: [own], takerCancelled: false },
+    });
+    expect(book.get(own)).toBeUndefined();
+    expect(rows.get(own)).toMatchObject({ status: "cancelled" });
+  });
+
+  it("cancels both orders under cancel_both", async () => {
+    const result = await buy("10", "2652", { stpMode: "cancel_both" });
+    expect(result.fills).toHaveLength(1);
+    expect(result).toMatchObject({
+      orderStatus: "cancelled",
+      selfTrade: { cancelledOrderIds: [own], takerCancelled: true },
+    });
+    expect(book.get(own)).toBeUndefined();
+  });
+
+  it("shrinks both sides by the overlap under decrement_and_cancel", async () => {
+    const result = await buy("4", "2652", { stpMode: "decrement_and_cancel" });
+    expect(result).toMatchObject({
+      remainingQuantity: "0.00000000",
+      orderStatus: "cancelled",
+      selfTrade: { cancelledOrderIds: [], decrementedQuantity: "2.00000000", takerCancelled: true },
+    });
+    expect(book.get(own)?.quantity).toBe("1.00000000");
+    expect(rows.get(own)).toMatchObject({ quantity: "1.00000000" });
+  });
+
+  it("cancels a resting order decremented to nothing and trades on", async () => {
+    const result = await buy("10", "2652", { stpMode: "decrement_and_cancel" });
+    expect(result.fills.map((f) => f.quantity)).toEqual(["2.00000000", "5.00000000"]);
+    expect(result).toMatchObject({
+      remainingQuantity: "0.00000000",
+      orderStatus: "filled",
+      selfTrade: { cancelledOrderIds: [own], decrementedQuantity: "3.00000000" },
+    });
+  });
+
+  it("counts liquidity past the user's own order toward fok only under cancel_oldest", async () => {
+    expect(await buy("7", "2652", { timeInForce: "fok" })).toMatchObject({
+      fills: [],
+      orderStatus: "cancelled",
+      selfTrade: null,
+    });
+    expect(book.get(own)).toBeDefined();
+
+    expect(
+      await buy("7", "2652", { timeInForce: "fok", stpMode: "cancel_oldest" })
+    ).toMatchObject({ orderStatus: "filled" });
+  });
+});
@@ -1,22 +1,55 @@
-import { eq, and, sql, asc, desc } from "drizzle-orm";
+import { eq, and, sql, asc } from "drizzle-orm";
 import { orders, wallets, transactions, positions } from "@/lib/db/schema";
+import type { Tx } from "@/lib/db";
 import { PAIRS } from "@/lib/trading/constants";
 import type { PairKey, FuturesPair } from "@/lib/trading/constants";
-import type { Fill, MatchResult, OrderStatus } from "@/lib/trading/types";
+import type {
+  Fill,
+  MatchResult,
+  Order,
+  OrderStatus,
+  SelfTradeOutcome,
+  StpMode,
+  TimeInForce,
+} from "@/lib/trading/types";
+import * as dec from "@/lib/trading/decimal";
+import { calculateFee, calculateQuoteAmount } from "@/lib/trading/decimal";
+import type { RiskTier } from "@/lib/trading/risk";
 import {
   calculateInitialMargin,
   calculateLiquidationPrice,
+  calculateLiquidationPriceFromMargin,
   calculateNotional,
+  calculateUnrealizedPnl,
 } from "./margin";
-
-type Tx = Parameters<Parameters<typeof import("@/lib/db").db.transaction>[0]>[0];
+import {
+  breachesCircuitBreaker,
+  checkMarketAllows,
+  getCircuitBreakerReference,
+  getMarketState,
+  tripCircuitBreaker,
+} from "./markets";
+import { needsRefill, remainingQuantity, visibleQuantity } from "./orderbook";
+import { releaseFunds, reservationShare } from "./reservations";
+import type { BookOrder, OrderBook } from "./orderbook";
 
 /**
- * Match an incoming order against resting orders in the book.
- * Runs within a DB transaction — the caller wraps this.
+ * Match an incoming order against resting orders in the in-memory book.
+ * Time in force decides what happens to the unfilled remainder:
+ * gtc/gtd rest, ioc cancels, fok fills completely or not at all,
+ * post_only is rejected if any part of it would take liquidity.
+ * A market order with a protection price stops sweeping at that price.
+ * Meeting the user's own resting order applies the self-trade prevention
+ * mode (cancel_newest by default) — the two never trade.
+ * The market's status applies first: post-only markets treat every order
+ * as post_only, auction markets rest orders without matching, and a fill
+ * past the circuit breaker halts the market and ends the sweep.
+ * Runs within a DB transaction inside withOrderBook — the caller wraps this.
+ * Only the fills and resting order updates are written to the DB.
  */
 export async function matchOrder(
   tx: Tx,
+  book: OrderBook,
   incoming: {
     id: string;
     userId: string;
@@ -25,112 +58,286 @@ export async function matchOrder(
     type: "limit" | "market";
     price: string | null;
     quantity: string;
+    timeInForce?: TimeInForce;
+    protectionPrice?: string | null;
+    stpMode?: StpMode;
   }
 ): Promise<MatchResult> {
+  const market = await getMarketState(incoming.pair, tx);
+  const marketError = checkMarketAllows(market, "place", incoming);
+  if (marketError) {
+    throw new Error(marketError);
+  }
+  if (market.status === "auction") {
+    return {
+      fills: [],
+      remainingQuantity: dec.normalize(incoming.quantity),
+      orderStatus: "open",
+      selfTrade: null,
+    };
+  }
+
+  const timeInForce =
+    market.status === "post-only" ? "post_only" : incoming.timeInForce ?? "gtc";
+  const stpMode = incoming.stpMode ?? "cancel_newest";
+  // Buy matches cheapest asks first, sell matches highest bids first
   const opposingSide = incoming.side === "buy" ? "sell" : "buy";
 
-  // For buy: match against cheapest asks first (ASC)
-  // For sell: match against highest bids first (DESC)
-  const priceOrder = incoming.side === "buy" ? asc(orders.price) : desc(orders.price);
+  const limitPrice =
+    incoming.type === "limit" ? incoming.price : incoming.protectionPrice ?? null;
+  const isPriceCompatible = (restingPrice: string) => {
+    if (limitPrice === null) return true;
+    return incoming.side === "buy"
+      ? dec.lte(restingPrice, limitPrice)
+      : dec.gte(restingPrice, limitPrice);
+  };
 
-  const restingOrders = await tx
-    .select()
-    .from(orders)
-    .where(
-      and(
-        eq(orders.pair, incoming.pair),
-        eq(orders.side, opposingSide),
-        sql`${orders.status} IN ('open', 'partial')`,
-        sql`${orders.price} IS NOT NULL`
-      )
-    )
-    .orderBy(priceOrder, asc(orders.createdAt))
-    .for("update");
+  if (timeInForce === "post_only") {
+    for (const resting of book.ordersFor(opposingSide)) {
+      if (resting.userId === incoming.userId) continue;
+      if (isPriceCompatible(resting.price)) {
+        throw new Error("Post-only order would cross the book");
+      }
+      break;
+    }
+  }
+
+  const breakerReference = await getCircuitBreakerReference(tx, incoming.pair);
+
+  if (timeInForce === "fok") {
+    // All-or-nothing: check available liquidity before writing any fill.
+    // Only cancel_oldest clears the user's own orders out of the way —
+    // under the other modes liquidity ends where they start. Liquidity past
+    // the circuit breaker does not count: the sweep would halt there.
+    let available = "0";
+    for (const resting of book.ordersFor(opposingSide)) {
+      if (!isPriceCompatible(resting.price)) break;
+      if (
+        breakerReference &&
+        breachesCircuitBreaker(incoming.pair, breakerReference, resting.price)
+      ) {
+        break;
+      }
+      if (resting.userId === incoming.userId) {
+        if (stpMode === "cancel_oldest") continue;
+        break;
+      }
+      available = dec.add(available, remainingQuantity(resting));
+    }
+    if (dec.lt(available, incoming.quantity)) {
+      return {
+        fills: [],
+        remainingQuantity: dec.normalize(incoming.quantity),
+        orderStatus: "cancelled",
+        selfTrade: null,
+      };
+    }
+  }
 
   const fills: Fill[] = [];
-  let remainingQty = parseFloat(incoming.quantity);
+  let remainingQty = dec.normalize(incoming.quantity);
+  let selfTrade: SelfTradeOutcome | null = null;
   const pairConfig = PAIRS[incoming.pair];
 
-  for (const resting of restingOrders) {
-    if (remainingQty <= 0) break;
+  for (const resting of book.ordersFor(opposingSide)) {
+    if (!dec.isPositive(remainingQty)) break;
+
+    // Price check for limit orders and protected market orders
+    if (!isPriceCompatible(resting.price)) break;
 
     // Self-trade prevention
-    if (resting.userId === incoming.userId) continue;
+    if (resting.userId === incoming.userId) {
+      selfTrade ??= {
+        mode: stpMode,
+        cancelledOrderIds: [],
+        decrementedQuantity: "0",
+        takerCancelled: false,
+      };
+
+      if (stpMode === "cancel_newest") {
+        selfTrade.takerCancelled = true;
+        break;
+      }
 
-    const restingPrice = parseFloat(resting.price!);
+      if (stpMode === "decrement_and_cancel") {
+        // Both sides shrink by the overlap; whichever is used up is cancelled
+        const overlap = dec.min(remainingQty, remainingQuantity(resting));
+        remainingQty = dec.sub(remainingQty, overlap);
+        selfTrade.decrementedQuantity = dec.add(selfTrade.decrementedQuantity, overlap);
+        if (dec.gt(remainingQuantity(resting), overlap)) {
+          await decrementRestingOrder(tx, book, resting.id, overlap);
+        } else {
+          await cancelRestingOrder(tx, book, resting.id);
+          selfTrade.cancelledOrderIds.push(resting.id);
+        }
+        if (dec.isZero(remainingQty)) {
+          selfTrade.takerCancelled = true;
+          break;
+        }
+        continue;
+      }
 
-    // Price check for limit orders
-    if (incoming.type === "limit" && incoming.price !== null) {
-      const incomingPrice = parseFloat(incoming.price);
-      if (incoming.side === "buy" && restingPrice > incomingPrice) break;
-      if (incoming.side === "sell" && restingPrice < incomingPrice) break;
+      // cancel_oldest and cancel_both pull the resting order
+      await cancelRestingOrder(tx, book, resting.id);
+      selfTrade.cancelledOrderIds.push(resting.id);
+      if (stpMode === "cancel_both") {
+        selfTrade.takerCancelled = true;
+        break;
+      }
+      continue;
     }
 
-    // Fill at maker's price
-    const restingRemaining =
-      parseFloat(resting.quantity) - parseFloat(resting.filledQuantity);
-    const fillQty = Math.min(remainingQty, restingRemaining);
-    const executePrice = restingPrice;
+    // An outsized move halts the market rather than trading through it
+    if (
+      breakerReference &&
+      breachesCircuitBreaker(incoming.pair, breakerReference, resting.price)
+    ) {
+      await tripCircuitBreaker(tx, incoming.pair, breakerReference, resting.price);
+      break;
+    }
+
+    // Fill at maker's price — an iceberg trades its visible slice at a time
+    const fillQty = dec.min(remainingQty, visibleQuantity(resting));
+    const executePrice = resting.price;
 
     // Calculate fees
     const feeBase =
       pairConfig.type === "spot"
-        ? fillQty * executePrice
+        ? calculateQuoteAmount(fillQty, executePrice)
         : calculateNotional(
-            fillQty.toString(),
+            fillQty,
             (pairConfig as typeof PAIRS["XAU-PERP"]).contractSize,
-            executePrice.toString()
+            executePrice
           );
 
-    const makerFee = feeBase * parseFloat(pairConfig.makerFeeRate);
-    const takerFee = feeBase * parseFloat(pairConfig.takerFeeRate);
-
     fills.push({
       makerOrderId: resting.id,
       makerUserId: resting.userId,
-      price: executePrice.toFixed(8),
-      quantity: fillQty.toFixed(8),
-      makerFee: makerFee.toFixed(8),
-      takerFee: takerFee.toFixed(8),
+      price: executePrice,
+      quantity: fillQty,
+      makerFee: calculateFee(feeBase, pairConfig.makerFeeRate),
+      takerFee: calculateFee(feeBase, pairConfig.takerFeeRate),
     });
 
-    // Update resting order
-    const newFilledQty = parseFloat(resting.filledQuantity) + fillQty;
-    const restingFullyFilled =
-      Math.abs(newFilledQty - parseFloat(resting.quantity)) < 1e-8;
-
-    await tx
-      .update(orders)
-      .set({
-        filledQuantity: newFilledQty.toFixed(8),
-        status: restingFullyFilled ? "filled" : "partial",
-        updatedAt: new Date(),
-      })
-      .where(eq(orders.id, resting.id));
-
-    remainingQty -= fillQty;
+    await fillRestingOrder(tx, book, resting, fillQty);
+    remainingQty = dec.sub(remainingQty, fillQty);
   }
 
   // Determine incoming order status
-  const filledQty = parseFloat(incoming.quantity) - remainingQty;
   let orderStatus: OrderStatus;
-  if (remainingQty < 1e-8) {
+  if (selfTrade?.takerCancelled) {
+    orderStatus = "cancelled";
+  } else if (dec.isZero(remainingQty)) {
     orderStatus = "filled";
-  } else if (filledQty > 1e-8 && incoming.type === "limit") {
+  } else if (
+    incoming.type === "market" ||
+    timeInForce === "ioc" ||
+    timeInForce === "fok"
+  ) {
+    // Nothing rests — the remainder is cancelled
+    orderStatus = "cancelled";
+  } else if (fills.length > 0) {
     orderStatus = "partial";
-  } else if (incoming.type === "market") {
-    orderStatus = remainingQty > 1e-8 ? "cancelled" : "filled";
   } else {
     orderStatus = "open";
   }
 
   return {
     fills,
-    remainingQuantity: remainingQty.toFixed(8),
+    remainingQuantity: remainingQty,
     orderStatus,
+    selfTrade,
   };
 }
 
+/**
+ * Book a fill against a resting order, handing back the part of its
+ * reservation the fill used up — settlement debits the actual cost. A
+ * used-up iceberg slice refills from the hidden quantity at the back of
+ * the level. Returns the order row as it was before the fill.
+ */
+export async function fillRestingOrder(
+  tx: Tx,
+  book: OrderBook,
+  resting: BookOrder,
+  fillQty: string
+): Promise<Order> {
+  const [restingRow] = await tx
+    .select()
+    .from(orders)
+    .where(eq(orders.id, resting.id))
+    .for("update");
+  const newFilledQty = dec.add(resting.filledQuantity, fillQty);
+  const restingFullyFilled = dec.gte(newFilledQty, resting.quantity);
+  const released = reservationShare(restingRow, fillQty);
+  await releaseFunds(tx, restingRow, released);
+  book.update(resting.id, { filledQuantity: newFilledQty });
+  const refill = !restingFullyFilled && needsRefill(book.get(resting.id)!);
+
+  await tx
+    .update(orders)
+    .set({
+      filledQuantity: newFilledQty,
+      status: restingFullyFilled ? "filled" : "partial",
+      reservedAmount: dec.sub(restingRow.reservedAmount, released),
+      ...(refill && { requeuedAt: new Date() }),
+      updatedAt: new Date(),
+    })
+    .where(eq(orders.id, resting.id));
+
+  if (restingFullyFilled) {
+    book.remove(resting.id);
+  } else if (refill) {
+    book.requeue(resting.id);
+  }
+  return restingRow;
+}
+
+/** Cancel a resting order pulled by self-trade prevention, releasing what it reserved. */
+export async function cancelRestingOrder(
+  tx: Tx,
+  book: OrderBook,
+  orderId: string
+): Promise<void> {
+  const [row] = await tx
+    .select()
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .for("update");
+  await releaseFunds(tx, row, row.reservedAmount);
+  await tx
+    .update(orders)
+    .set({ status: "cancelled", reservedAmount: "0", updatedAt: new Date() })
+    .where(eq(orders.id, orderId));
+  book.remove(orderId);
+}
+
+/** Shrink a resting order by a self-trade overlap. It keeps its queue position. */
+async function decrementRestingOrder(
+  tx: Tx,
+  book: OrderBook,
+  orderId: string,
+  quantity: string
+): Promise<void> {
+  const [row] = await tx
+    .select()
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .for("update");
+  const released = reservationShare(row, quantity);
+  await releaseFunds(tx, row, released);
+  const newQuantity = dec.sub(row.quantity, quantity);
+  await tx
+    .update(orders)
+    .set({
+      quantity: newQuantity,
+      reservedAmount: dec.sub(row.reservedAmount, released),
+      updatedAt: new Date(),
+    })
+    .where(eq(orders.id, orderId));
+  book.update(orderId, { quantity: newQuantity });
+}
+
 /**
  * Settle a spot trade (USDT-USDC exchange).
  * Transfers currencies between buyer and seller wallets.
@@ -142,7 +349,7 @@ export async function settleSpotTrade(
 ): Promise<void> {
   const fillQty = fill.quantity;
   const fillPrice = fill.price;
-  const quoteAmount = (parseFloat(fillQty) * parseFloat(fillPrice)).toFixed(8);
+  const quoteAmount = calculateQuoteAmount(fillQty, fillPrice);
 
   // Determine who gets what
   // Buy side: buyer gets USDT, pays USDC
@@ -156,20 +363,18 @@ export async function settleSpotTrade(
   const buyerFee = buyerIsTaker ? fill.takerFee : fill.makerFee;
   const sellerFee = buyerIsTaker ? fill.makerFee : fill.takerFee;
 
-  // Buyer: deduct USDC (quote), credit USDT (base minus fee)
-  await updateWalletBalance(tx, buyerId, "USDC", `-${quoteAmount}`, "trade_debit", takerOrder.id);
-  const usdtCreditAfterFee = (parseFloat(fillQty) - parseFloat(buyerFee)).toFixed(8);
-  await updateWalletBalance(tx, buyerId, "USDT", usdtCreditAfterFee, "trade_credit", takerOrder.id);
-  if (parseFloat(buyerFee) > 0) {
-    await updateWalletBalance(tx, buyerId, "USDT", `-${buyerFee}`, "fee", takerOrder.id);
+  // Buyer: deduct USDC (quote), credit USDT (base), then pay the fee in USDT
+  await updateWalletBalance(tx, buyerId, "USDC", dec.neg(quoteAmount), "trade_debit", takerOrder.id);
+  await updateWalletBalance(tx, buyerId, "USDT", fillQty, "trade_credit", takerOrder.id);
+  if (dec.isPositive(buyerFee)) {
+    await updateWalletBalance(tx, buyerId, "USDT", dec.neg(buyerFee), "fee", takerOrder.id);
   }
 
-  // Seller: deduct USDT (base), credit USDC (quote minus fee)
-  await updateWalletBalance(tx, sellerId, "USDT", `-${fillQty}`, "trade_debit", takerOrder.id);
-  const usdcCreditAfterFee = (parseFloat(quoteAmount) - parseFloat(sellerFee)).toFixed(8);
-  await updateWalletBalance(tx, sellerId, "USDC", usdcCreditAfterFee, "trade_credit", takerOrder.id);
-  if (parseFloat(sellerFee) > 0) {
-    await updateWalletBalance(tx, sellerId, "USDC", `-${sellerFee}`, "fee", takerOrder.id);
+  // Seller: deduct USDT (base), credit USDC (quote), then pay the fee in USDC
+  await updateWalletBalance(tx, sellerId, "USDT", dec.neg(fillQty), "trade_debit", takerOrder.id);
+  await updateWalletBalance(tx, sellerId, "USDC", quoteAmount, "trade_credit", takerOrder.id);
+  if (dec.isPositive(sellerFee)) {
+    await updateWalletBalance(tx, sellerId, "USDC", dec.neg(sellerFee), "fee", takerOrder.id);
   }
 }
 
@@ -185,8 +390,12 @@ export async function settleFuturesTrade(
     side: "buy" | "sell";
     collateralCurrency: string;
     leverage: number;
+    takeProfitPrice?: string | null;
+    stopLossPrice?: string | null;
+    reduceOnly?: boolean;
   },
-  pair: FuturesPair
+  pair: FuturesPair,
+  options: { makerOnly?: boolean } = {}
 ): Promise<void> {
   const pairConfig = PAIRS[pair];
   const fillQty = fill.quantity;
@@ -200,6 +409,9 @@ export async function settleFuturesTrade(
       fee: fill.takerFee,
       collateralCurrency: takerOrder.collateralCurrency,
       leverage: takerOrder.leverage,
+      takeProfitPrice: takerOrder.takeProfitPrice ?? null,
+      stopLossPrice: takerOrder.stopLossPrice ?? null,
+      reduceOnly: takerOrder.reduceOnly ?? false,
       isTaker: true,
       orderId: takerOrder.id,
     },
@@ -207,15 +419,18 @@ export async function settleFuturesTrade(
       userId: fill.makerUserId,
       side: fill.makerUserId === takerOrder.userId ? takerOrder.side : (takerOrder.side === "buy" ? "sell" : "buy"),
       fee: fill.makerFee,
-      // Maker's collateral currency — look up from the resting order
-      collateralCurrency: takerOrder.collateralCurrency, // We'll fix this from the order
+      // Maker's collateral and leverage — look up from the resting order
+      collateralCurrency: takerOrder.collateralCurrency,
       leverage: takerOrder.leverage,
+      takeProfitPrice: null as string | null,
+      stopLossPrice: null as string | null,
+      reduceOnly: false,
       isTaker: false,
       orderId: fill.makerOrderId,
     },
   ];
 
-  // Look up maker's order for correct collateral info
+  // Look up maker's order for its own collateral, leverage and brackets
   const [makerOrder] = await tx
     .select()
     .from(orders)
@@ -223,9 +438,14 @@ export async function settleFuturesTrade(
 
   if (makerOrder) {
     participants[1].collateralCurrency = makerOrder.collateralCurrency || "USDT";
+    participants[1].leverage = parseFloat(makerOrder.leverage ?? "1");
+    participants[1].takeProfitPrice = makerOrder.takeProfitPrice;
+    participants[1].stopLossPrice = makerOrder.stopLossPrice;
+    participants[1].reduceOnly = makerOrder.reduceOnly;
   }
 
-  for (const p of participants) {
+  // Close and liquidation orders settle the closed position themselves
+  for (const p of options.makerOnly ? participants.slice(1) : participants) {
     const positionSide = p.side === "buy" ? "long" : "short";
 
     // Check for existing opposing position (reduces/closes it)
@@ -245,82 +465,70 @@ export async function settleFuturesTrade(
 
     if (opposingPos) {
       // Close or reduce the opposing position
-      const closeQty = Math.min(
-        parseFloat(fillQty),
-        parseFloat(opposingPos.quantity)
-      );
+      const closeQty = dec.min(fillQty, opposingPos.quantity);
 
       // Calculate PnL
-      const entryNotional = calculateNotional(
-        closeQty.toString(),
-        pairConfig.contractSize,
-        opposingPos.entryPrice
-      );
-      const exitNotional = calculateNotional(
-        closeQty.toString(),
-        pairConfig.contractSize,
-        fillPrice
+      const pnl = calculateUnrealizedPnl(
+        opposingSide,
+        opposingPos.entryPrice,
+        fillPrice,
+        closeQty,
+        pairConfig.contractSize
       );
-      const pnl =
-        opposingSide === "long"
-          ? exitNotional - entryNotional
-          : entryNotional - exitNotional;
 
-      // Release proportional margin
-      const marginRelease =
-        (closeQty / parseFloat(opposingPos.quantity)) *
-        parseFloat(opposingPos.margin);
+      const remainingQty = dec.sub(opposingPos.quantity, closeQty);
 
-      const remainingQty = parseFloat(opposingPos.quantity) - closeQty;
+      // Release proportional margin — all of it on a full close
+      const marginRelease = dec.isZero(remainingQty)
+        ? opposingPos.margin
+        : dec.mulDiv(opposingPos.margin, closeQty, opposingPos.quantity, "floor");
 
-      if (remainingQty < 1e-8) {
-        // Fully close position
+      if (dec.isZero(remainingQty)) {
+        // Fully close position — take-profit and stop-loss go with it
         await tx
           .update(positions)
           .set({
             quantity: "0",
             status: "closed",
-            realizedPnl: sql`${positions.realizedPnl} + ${pnl.toFixed(8)}::decimal`,
+            takeProfitPrice: null,
+            stopLossPrice: null,
+            realizedPnl: sql`${positions.realizedPnl} + ${pnl}::decimal`,
             updatedAt: new Date(),
           })
           .where(eq(positions.id, opposingPos.id));
       } else {
         // Partially close
-        const remainingMargin = parseFloat(opposingPos.margin) - marginRelease;
         await tx
           .update(positions)
           .set({
-            quantity: remainingQty.toFixed(8),
-            margin: remainingMargin.toFixed(8),
-            realizedPnl: sql`${positions.realizedPnl} + ${pnl.toFixed(8)}::decimal`,
+            quantity: remainingQty,
+            margin: dec.sub(opposingPos.margin, marginRelease),
+            realizedPnl: sql`${positions.realizedPnl} + ${pnl}::decimal`,
             updatedAt: new Date(),
           })
           .where(eq(positions.id, opposingPos.id));
       }
 
       // Credit PnL + margin release to wallet
-      const totalCredit = pnl + marginRelease;
       await updateWalletBalance(
         tx,
         p.userId,
         opposingPos.collateralCurrency,
-        totalCredit.toFixed(8),
+        dec.add(pnl, marginRelease),
         "margin_release",
         p.orderId
       );
 
-      // If fill quantity exceeds opposing position, create new position for remainder
-      const excessQty = parseFloat(fillQty) - closeQty;
-      if (excessQty > 1e-8) {
-        await createNewPosition(
-          tx,
-          p,
-          pair,
-          pairConfig,
-          excessQty.toString(),
-          fillPrice
-        );
+      // If fill quantity exceeds opposing position, create new position for remainder.
+      // Reduce-only orders never open the opposite side.
+      const excessQty = dec.sub(fillQty, closeQty);
+      if (dec.isPositive(excessQty) && !p.reduceOnly) {
+        await createNewPosition(tx, p, pair, pairConfig, excessQty, fillPrice);
       }
+    } else if (p.reduceOnly) {
+      // Nothing left to reduce — executeOrder caps the taker and pruning
+      // cancels stale makers, so this only guards against a race
+      continue;
     } else {
       // Check for existing same-side position to add to
       const [existingPos] = await tx
@@ -338,11 +546,14 @@ export async function settleFuturesTrade(
 
       if (existingPos) {
         // Average into existing position
-        const existingNotional =
-          parseFloat(existingPos.quantity) * parseFloat(existingPos.entryPrice);
-        const newNotional = parseFloat(fillQty) * parseFloat(fillPrice);
-        const totalQty = parseFloat(existingPos.quantity) + parseFloat(fillQty);
-        const avgEntry = (existingNotional + newNotional) / totalQty;
+        const totalQty = dec.add(existingPos.quantity, fillQty);
+        const avgEntry = dec.div(
+          dec.add(
+            dec.mul(existingPos.quantity, existingPos.entryPrice),
+            dec.mul(fillQty, fillPrice)
+          ),
+          totalQty
+        );
 
         const additionalMargin = calculateInitialMargin(
           fillQty,
@@ -351,34 +562,46 @@ export async function settleFuturesTrade(
           p.leverage
         );
 
-        const newTotalMargin =
-          parseFloat(existingPos.margin) + additionalMargin;
-        const newLiqPrice = calculateLiquidationPrice(
-          avgEntry.toString(),
+        // From the margin actually held — it may have been topped up or drawn down
+        const newMargin = dec.add(existingPos.margin, additionalMargin);
+        const newLiqPrice = calculateLiquidationPriceFromMargin(
+          avgEntry,
           positionSide as "long" | "short",
-          p.leverage,
-          pairConfig.maintenanceMarginRate
+          totalQty,
+          pairConfig.contractSize,
+          newMargin,
+          pairConfig.riskTiers
         );
 
         await tx
           .update(positions)
           .set({
-            quantity: totalQty.toFixed(8),
-            entryPrice: avgEntry.toFixed(8),
-            margin: newTotalMargin.toFixed(8),
-            liquidationPrice: newLiqPrice.toFixed(8),
+            quantity: totalQty,
+            entryPrice: avgEntry,
+            margin: newMargin,
+            liquidationPrice: newLiqPrice,
+            // Brackets on the new order replace any set on the position
+            ...(p.takeProfitPrice && { takeProfitPrice: p.takeProfitPrice }),
+            ...(p.stopLossPrice && { stopLossPrice: p.stopLossPrice }),
             updatedAt: new Date(),
           })
           .where(eq(positions.id, existingPos.id));
 
-        // Taker's margin was pre-locked at order placement; maker's too
-        // Deduct fee
-        if (parseFloat(p.fee) > 0) {
+        // Move the added margin out of the wallet, then deduct the fee
+        await updateWalletBalance(
+          tx,
+          p.userId,
+          p.collateralCurrency,
+          dec.neg(additionalMargin),
+          "margin_lock",
+          p.orderId
+        );
+        if (dec.isPositive(p.fee)) {
           await updateWalletBalance(
             tx,
             p.userId,
             p.collateralCurrency,
-            `-${p.fee}`,
+            dec.neg(p.fee),
             "fee",
             p.orderId
           );
@@ -406,12 +629,14 @@ async function createNewPosition(
     fee: string;
     collateralCurrency: string;
     leverage: number;
+    takeProfitPrice: string | null;
+    stopLossPrice: string | null;
     orderId: string;
   },
   pair: FuturesPair,
   pairConfig: {
     contractSize: string;
-    maintenanceMarginRate: string;
+    riskTiers: readonly RiskTier[];
   },
   quantity: string,
   price: string
@@ -429,34 +654,114 @@ async function createNewPosition(
     price,
     positionSide as "long" | "short",
     participant.leverage,
-    pairConfig.maintenanceMarginRate
+    quantity,
+    pairConfig.contractSize,
+    pairConfig.riskTiers
   );
 
   await tx.insert(positions).values({
     userId: participant.userId,
     contract: pair,
     side: positionSide,
-    entryPrice: parseFloat(price).toFixed(8),
-    quantity: parseFloat(quantity).toFixed(8),
-    margin: margin.toFixed(8),
+    entryPrice: dec.normalize(price),
+    quantity: dec.normalize(quantity),
+    margin,
     collateralCurrency: participant.collateralCurrency,
     leverage: participant.leverage.toFixed(2),
-    liquidationPrice: liqPrice.toFixed(8),
+    liquidationPrice: liqPrice,
+    takeProfitPrice: participant.takeProfitPrice,
+    stopLossPrice: participant.stopLossPrice,
   });
 
-  // Deduct fee from wallet
-  if (parseFloat(participant.fee) > 0) {
+  // Move the margin out of the wallet, then deduct the fee
+  await updateWalletBalance(
+    tx,
+    participant.userId,
+    participant.collateralCurrency,
+    dec.neg(margin),
+    "margin_lock",
+    participant.orderId
+  );
+  if (dec.isPositive(participant.fee)) {
     await updateWalletBalance(
       tx,
       participant.userId,
       participant.collateralCurrency,
-      `-${participant.fee}`,
+      dec.neg(participant.fee),
       "fee",
       participant.orderId
     );
   }
 }
 
+/**
+ * Cancel or shrink resting reduce-only orders that no longer fit the user's
+ * position. Orders keep time priority: the oldest are kept whole, the one that
+ * straddles the position size is shrunk, and anything after it is cancelled.
+ */
+export async function pruneReduceOnlyOrders(
+  tx: Tx,
+  book: OrderBook,
+  userId: string,
+  contract: FuturesPair
+): Promise<void> {
+  const restingReduceOnly = await tx
+    .select()
+    .from(orders)
+    .where(
+      and(
+        eq(orders.userId, userId),
+        eq(orders.pair, contract),
+        eq(orders.reduceOnly, true),
+        sql`${orders.status} IN ('pending', 'open', 'partial')`
+      )
+    )
+    .orderBy(asc(orders.createdAt))
+    .for("update");
+
+  if (restingReduceOnly.length === 0) return;
+
+  const openPositions = await tx
+    .select()
+    .from(positions)
+    .where(
+      and(
+        eq(positions.userId, userId),
+        eq(positions.contract, contract),
+        eq(positions.status, "open")
+      )
+    );
+
+  // Sells reduce a long, buys reduce a short
+  const capacity = {
+    sell: openPositions.find((p) => p.side === "long")?.quantity ?? "0",
+    buy: openPositions.find((p) => p.side === "short")?.quantity ?? "0",
+  };
+
+  for (const order of restingReduceOnly) {
+    const side = order.side as "buy" | "sell";
+    const unfilled = dec.sub(order.quantity, order.filledQuantity);
+
+    if (!dec.isPositive(capacity[side])) {
+      await tx
+        .update(orders)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(orders.id, order.id));
+      book.remove(order.id);
+    } else if (dec.gt(unfilled, capacity[side])) {
+      const shrunkQuantity = dec.add(order.filledQuantity, capacity[side]);
+      await tx
+        .update(orders)
+        .set({ quantity: shrunkQuantity, updatedAt: new Date() })
+        .where(eq(orders.id, order.id));
+      book.update(order.id, { quantity: shrunkQuantity });
+      capacity[side] = "0";
+    } else {
+      capacity[side] = dec.sub(capacity[side], unfilled);
+    }
+  }
+}
+
 /**
  * Helper: update wallet balance with SQL arithmetic and record a transaction.
  */
@@ -499,7 +804,7 @@ async function updateWalletBalance(
     amount,
     balanceAfter: updated.balance,
     referenceId,
-    referenceType: type === "fee" ? "trade" : type === "margin_release" ? "position" : "trade",
+    referenceType: type === "margin_lock" || type === "margin_release" ? "position" : "trade",
     description: `${type.replace("_", " ")} — ${currency}`,
   });
 }
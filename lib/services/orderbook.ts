@@ -0,0 +1,466 @@
+import { db } from "@/lib/db";
+import type { Tx } from "@/lib/db";
+import { orders, markets } from "@/lib/db/schema";
+import { eq, and, sql } from "drizzle-orm";
+import * as dec from "@/lib/trading/decimal";
+
+/**
+ * In-memory price-level order book, one per pair.
+ *
+ * Each process keeps its books for as long as it lives and changes them in
+ * place as it matches. The DB stays the source of truth — the book only saves
+ * scanning and row-locking the whole opposite side on every order. Changes
+ * are made under the pair's `markets` row lock, and each one bumps
+ * `markets.bookVersion`; a process whose book is behind that version (another
+ * instance has matched since) rebuilds it from the resting orders first.
+ */
+
+export interface BookOrder {
+  id: string;
+  userId: string;
+  side: "buy" | "sell";
+  price: string;
+  quantity: string;
+  filledQuantity: string;
+  displayQuantity: string | null; // iceberg slice
+  createdAt: Date;
+}
+
+interface PriceLevel {
+  price: string;
+  orders: BookOrder[]; // FIFO — time priority within the level
+}
+
+function priceKey(price: string): string {
+  return dec.normalize(price);
+}
+
+export function remainingQuantity(order: BookOrder): string {
+  return dec.sub(order.quantity, order.filledQuantity);
+}
+
+/**
+ * What the book shows of an order. An iceberg shows one slice of
+ * displayQuantity at a time; a new slice starts each time the filled
+ * quantity reaches a multiple of it.
+ */
+export function visibleQuantity(order: BookOrder): string {
+  const remaining = remainingQuantity(order);
+  if (!order.displayQuantity) return remaining;
+  const sliceLeft = dec.sub(
+    order.displayQuantity,
+    dec.mod(order.filledQuantity, order.displayQuantity)
+  );
+  return dec.min(sliceLeft, remaining);
+}
+
+/** True once a fill has used up an iceberg's visible slice and hidden quantity remains. */
+export function needsRefill(order: BookOrder): boolean {
+  return (
+    order.displayQuantity !== null &&
+    dec.isPositive(remainingQuantity(order)) &&
+    dec.isZero(dec.mod(order.filledQuantity, order.displayQuantity))
+  );
+}
+
+export class OrderBook {
+  readonly pair: string;
+  // Best price first: bids descending, asks ascending
+  private levels: Record<"buy" | "sell", PriceLevel[]> = { buy: [], sell: [] };
+  private byPrice: Record<"buy" | "sell", Map<string, PriceLevel>> = {
+    buy: new Map(),
+    sell: new Map(),
+  };
+  private index = new Map<string, BookOrder>();
+  // When each entry joined its level — levels stay sorted by it
+  private arrival = new WeakMap<BookOrder, number>();
+  private arrivals = 0;
+  // The markets.bookVersion the book is in step with — null until loaded
+  private version: number | null = null;
+  // Undo log for the batch in progress — null outside withOrderBook
+  private journal: (() => void)[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(pair: string) {
+    this.pair = pair;
+  }
+
+  get(id: string): BookOrder | undefined {
+    return this.index.get(id);
+  }
+
+  /** Append an order to the back of its price level. */
+  add(order: BookOrder): void {
+    if (this.index.has(order.id)) return;
+    const entry = { ...order, price: priceKey(order.price) };
+    const level = this.getOrCreateLevel(entry.side, entry.price);
+    level.orders.push(entry);
+    this.arrival.set(entry, this.arrivals++);
+    this.index.set(entry.id, entry);
+    this.record(() => this.detach(entry.id));
+  }
+
+  /** Remove an order from the book (no-op if it is not resting). */
+  remove(id: string): void {
+    const entry = this.index.get(id);
+    if (!entry) return;
+    const level = this.byPrice[entry.side].get(entry.price)!;
+    const position = level.orders.indexOf(entry);
+    this.detach(id);
+    this.record(() => {
+      const restored = this.getOrCreateLevel(entry.side, entry.price);
+      restored.orders.splice(position, 0, entry);
+      this.index.set(entry.id, entry);
+    });
+  }
+
+  /** Update quantities in place — the order keeps its queue position. */
+  update(id: string, changes: Partial<Pick<BookOrder, "quantity" | "filledQuantity">>): void {
+    const entry = this.index.get(id);
+    if (!entry) return;
+    const previous = { quantity: entry.quantity, filledQuantity: entry.filledQuantity };
+    Object.assign(entry, changes);
+    this.record(() => Object.assign(entry, previous));
+  }
+
+  /**
+   * Send an order to the back of its price level (an iceberg refilling its
+   * slice). It is re-entered as a new entry, so a sweep in progress reaches
+   * it again after the rest of the level.
+   */
+  requeue(id: string): void {
+    const entry = this.index.get(id);
+    if (!entry) return;
+    const level = this.byPrice[entry.side].get(entry.price)!;
+    const position = level.orders.indexOf(entry);
+    const requeued = { ...entry };
+    level.orders = [...level.orders.filter((o) => o !== entry), requeued];
+    this.arrival.set(requeued, this.arrivals++);
+    this.index.set(id, requeued);
+    this.record(() => {
+      level.orders = level.orders.filter((o) => o !== requeued);
+      level.orders.splice(position, 0, entry);
+      this.index.set(id, entry);
+    });
+  }
+
+  /**
+   * Orders on one side in price-time priority. Safe to mutate the book while
+   * iterating; orders requeued mid-sweep come up again at the back of their level.
+   */
+  *ordersFor(side: "buy" | "sell"): Generator<BookOrder> {
+    for (const level of [...this.levels[side]]) {
+      // Pick up after the last order yielded, wherever the level now has it
+      let after = -1;
+      let next: BookOrder | undefined;
+      while ((next = this.firstAfter(level, after))) {
+        after = this.arrival.get(next)!;
+        yield next;
+      }
+    }
+  }
+
+  bestPrice(side: "buy" | "sell"): string | null {
+    return this.levels[side][0]?.price ?? null;
+  }
+
+  /** Whether the book is in step with a markets.bookVersion. */
+  isCurrent(version: number): boolean {
+    return this.version === version;
+  }
+
+  /** True once the batch in progress has changed the book. */
+  get changed(): boolean {
+    return (this.journal?.length ?? 0) > 0;
+  }
+
+  /** Replace the whole book with the resting orders as of a version. Not undone on rollback. */
+  reset(resting: BookOrder[], version: number): void {
+    const journal = this.journal;
+    this.journal = null;
+    this.levels = { buy: [], sell: [] };
+    this.byPrice = { buy: new Map(), sell: new Map() };
+    this.index.clear();
+    for (const order of resting) this.add(order);
+    this.version = version;
+    this.journal = journal;
+  }
+
+  /** Record the version the batch in progress has moved the book to. */
+  setVersion(version: number): void {
+    const previous = this.version;
+    this.version = version;
+    this.record(() => (this.version = previous));
+  }
+
+  /**
+   * Run fn with exclusive access to the book. Book mutations made by fn are
+   * undone if it throws (i.e. the DB transaction rolled back).
+   */
+  async exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      this.journal = [];
+      try {
+        return await fn();
+      } catch (error) {
+        for (const undo of this.journal.reverse()) undo();
+        throw error;
+      } finally {
+        this.journal = null;
+      }
+    });
+    // Keep the queue alive whether or not this batch failed
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Run fn as one step of the batch in progress: its book changes are undone
+   * if it throws (a rolled-back savepoint) while the rest of the batch stands.
+   */
+  async nested<T>(fn: () => Promise<T>): Promise<T> {
+    const journal = this.journal;
+    if (!journal) throw new Error("Order book is not locked");
+    const mark = journal.length;
+    try {
+      return await fn();
+    } catch (error) {
+      for (const undo of journal.splice(mark).reverse()) undo();
+      throw error;
+    }
+  }
+
+  /** The first order in a level that joined it after the given arrival. */
+  private firstAfter(level: PriceLevel, after: number): BookOrder | undefined {
+    let lo = 0;
+    let hi = level.orders.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.arrival.get(level.orders[mid])! > after) hi = mid;
+      else lo = mid + 1;
+    }
+    return level.orders[lo];
+  }
+
+  private record(undo: () => void): void {
+    this.journal?.push(undo);
+  }
+
+  private detach(id: string): void {
+    const entry = this.index.get(id);
+    if (!entry) return;
+    const level = this.byPrice[entry.side].get(entry.price);
+    if (level) {
+      level.orders = level.orders.filter((o) => o !== entry);
+      if (level.orders.length === 0) {
+        this.byPrice[entry.side].delete(entry.price);
+        this.levels[entry.side] = this.levels[entry.side].filter((l) => l !== level);
+      }
+    }
+    this.index.delete(id);
+  }
+
+  private getOrCreateLevel(side: "buy" | "sell", price: string): PriceLevel {
+    const existing = this.byPrice[side].get(price);
+    if (existing) return existing;
+
+    const level: PriceLevel = { price, orders: [] };
+    const levels = this.levels[side];
+    const isBetter = (other: PriceLevel) =>
+      side === "buy" ? dec.gt(price, other.price) : dec.lt(price, other.price);
+
+    // Binary search for the first level this one beats
+    let lo = 0;
+    let hi = levels.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (isBetter(levels[mid])) hi = mid;
+      else lo = mid + 1;
+    }
+    levels.splice(lo, 0, level);
+    this.byPrice[side].set(price, level);
+    return level;
+  }
+}
+
+/**
+ * Walk the opposite side of the book the way a taker would — best price
+ * first, skipping the taker's own orders, stopping at limitPrice — without
+ * changing anything. Size by base quantity, or by the quote amount to spend.
+ * Returns how much would fill and the worst price it would reach.
+ */
+export function estimateSweep(
+  book: OrderBook,
+  taker: { userId: string; side: "buy" | "sell"; limitPrice?: string | null },
+  size: { quantity: string } | { quoteAmount: string }
+): { quantity: string; quoteAmount: string; worstPrice: string | null } {
+  const makerSide = taker.side === "buy" ? "sell" : "buy";
+  let quantity = "0";
+  let quoteAmount = "0";
+  let worstPrice: string | null = null;
+
+  for (const resting of book.ordersFor(makerSide)) {
+    if (resting.userId === taker.userId) continue;
+    if (
+      taker.limitPrice &&
+      (taker.side === "buy"
+        ? dec.gt(resting.price, taker.limitPrice)
+        : dec.lt(resting.price, taker.limitPrice))
+    ) {
+      break;
+    }
+
+    const wanted =
+      "quantity" in size
+        ? dec.sub(size.quantity, quantity)
+        : dec.div(dec.sub(size.quoteAmount, quoteAmount), resting.price, "floor");
+    const take = dec.min(wanted, remainingQuantity(resting));
+    if (!dec.isPositive(take)) break;
+
+    quantity = dec.add(quantity, take);
+    quoteAmount = dec.add(quoteAmount, dec.calculateQuoteAmount(take, resting.price));
+    worstPrice = resting.price;
+  }
+
+  return { quantity, quoteAmount, worstPrice };
+}
+
+const books = new Map<string, OrderBook>();
+
+/**
+ * This process's book for a pair. It is only brought up to date under
+ * withOrderBook or readOrderBook.
+ */
+function loadOrderBook(pair: string): OrderBook {
+  let book = books.get(pair);
+  if (!book) {
+    book = new OrderBook(pair);
+    books.set(pair, book);
+  }
+  return book;
+}
+
+async function loadRestingOrders(executor: Tx | typeof db, pair: string) {
+  const resting = await executor
+    .select()
+    .from(orders)
+    .where(
+      and(
+        eq(orders.pair, pair),
+        sql`${orders.status} IN ('open', 'partial')`,
+        sql`${orders.price} IS NOT NULL`
+      )
+    )
+    // Triggered stops and amended orders queue from when they last
+    // joined their price level, not from when they were placed
+    .orderBy(
+      sql`COALESCE(${orders.requeuedAt}, ${orders.triggeredAt}, ${orders.createdAt})`
+    );
+  return resting.map(toBookOrder);
+}
+
+/** Lock the pair's markets row and rebuild the book if it is behind. */
+async function syncOrderBook(tx: Tx, book: OrderBook): Promise<void> {
+  // No row means an open market — create one so there is something to lock
+  await tx.insert(markets).values({ pair: book.pair }).onConflictDoNothing();
+  const [market] = await tx
+    .select({ bookVersion: markets.bookVersion })
+    .from(markets)
+    .where(eq(markets.pair, book.pair))
+    .for("update");
+
+  if (!book.isCurrent(market.bookVersion)) {
+    book.reset(await loadRestingOrders(tx, book.pair), market.bookVersion);
+  }
+}
+
+/** Bump the pair's book version if the batch changed the book. */
+async function publishOrderBook(tx: Tx, book: OrderBook): Promise<void> {
+  if (!book.changed) return;
+  const [market] = await tx
+    .update(markets)
+    .set({ bookVersion: sql`${markets.bookVersion} + 1` })
+    .where(eq(markets.pair, book.pair))
+    .returning({ bookVersion: markets.bookVersion });
+  book.setVersion(market.bookVersion);
+}
+
+/**
+ * Run fn in a DB transaction with exclusive access to a pair's book, up to
+ * date and locked against other processes. Book changes roll back with the
+ * transaction.
+ */
+export async function withOrderBook<T>(
+  pair: string,
+  fn: (book: OrderBook, tx: Tx) => Promise<T>
+): Promise<T> {
+  return withOrderBooks([pair], (books, tx) => fn(books.get(pair)!, tx));
+}
+
+/**
+ * withOrderBook over several pairs at once, for a transaction that spans
+ * books. Books are locked in pair order so concurrent batches cannot deadlock.
+ */
+export async function withOrderBooks<T>(
+  pairs: string[],
+  fn: (books: Map<string, OrderBook>, tx: Tx) => Promise<T>
+): Promise<T> {
+  const books = new Map(
+    [...new Set(pairs)].sort().map((pair) => [pair, loadOrderBook(pair)] as const)
+  );
+  const run = () =>
+    db.transaction(async (tx) => {
+      for (const book of books.values()) await syncOrderBook(tx, book);
+      const result = await fn(books, tx);
+      for (const book of books.values()) await publishOrderBook(tx, book);
+      return result;
+    });
+  return [...books.values()].reduceRight<() => Promise<T>>(
+    (inner, book) => () => book.exclusive(inner),
+    run
+  )();
+}
+
+/**
+ * Run a read-only fn against a pair's book, rebuilt first if another process
+ * has changed it. Takes no DB lock.
+ */
+export async function readOrderBook<T>(
+  pair: string,
+  fn: (book: OrderBook) => T
+): Promise<T> {
+  const book = loadOrderBook(pair);
+  return book.exclusive(async () => {
+    const [market] = await db
+      .select({ bookVersion: markets.bookVersion })
+      .from(markets)
+      .where(eq(markets.pair, pair));
+    const version = market?.bookVersion ?? 0;
+    if (!book.isCurrent(version)) {
+      book.reset(await loadRestingOrders(db, pair), version);
+    }
+    return fn(book);
+  });
+}
+
+export function toBookOrder(order: {
+  id: string;
+  userId: string;
+  side: string;
+  price: string | null;
+  quantity: string;
+  filledQuantity: string;
+  displayQuantity: string | null;
+  createdAt: Date;
+}): BookOrder {
+  return {
+    id: order.id,
+    userId: order.userId,
+    side: order.side as "buy" | "sell",
+    price: order.price!,
+    quantity: order.quantity,
+    filledQuantity: order.filledQuantity,
+    displayQuantity: order.displayQuantity,
+    createdAt: order.createdAt,
+  };
+}
@@ -0,0 +1,580 @@
+import { eq, and, inArray, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { orders, trades, positions } from "@/lib/db/schema";
+import type { Tx } from "@/lib/db";
+import { PAIRS } from "@/lib/trading/constants";
+import type { PairKey, FuturesPair } from "@/lib/trading/constants";
+import type {
+  Fill,
+  Order,
+  OrderType,
+  MatchResult,
+  SelfTradeOutcome,
+  StpMode,
+  TimeInForce,
+} from "@/lib/trading/types";
+import {
+  matchOrder,
+  settleSpotTrade,
+  settleFuturesTrade,
+  pruneReduceOnlyOrders,
+} from "./matching";
+import {
+  estimateSweep,
+  toBookOrder,
+  withOrderBook,
+  withOrderBooks,
+} from "./orderbook";
+import type { OrderBook } from "./orderbook";
+import { checkMarketAllows, getMarketState } from "./markets";
+import { validateBrackets } from "./positions";
+import {
+  calculateReservation,
+  reserveFunds,
+  releaseFunds,
+  reservationShare,
+} from "./reservations";
+import type { Reservation } from "./reservations";
+import * as dec from "@/lib/trading/decimal";
+import { roundPrice } from "@/lib/trading/decimal";
+import { checkOrderRules, OrderRuleError } from "@/lib/trading/rules";
+import { getSameSideQuantity } from "@/lib/db/queries/trading";
+
+/**
+ * Stop orders execute as their underlying type once triggered.
+ */
+export function getExecutionType(type: OrderType): "limit" | "market" {
+  return type === "limit" || type === "stop_limit" ? "limit" : "market";
+}
+
+export function isStopOrder(type: string): boolean {
+  return type === "stop_market" || type === "stop_limit" || type === "trailing_stop";
+}
+
+/**
+ * A trailing stop's trigger: trailingAmount or trailingRate behind its peak
+ * mark — below the highest mark for a sell, above the lowest for a buy —
+ * rounded to the tick away from the peak.
+ */
+export function calculateTrailingTrigger(
+  pair: PairKey,
+  side: "buy" | "sell",
+  peak: string,
+  trail: { trailingAmount?: string | null; trailingRate?: string | null }
+): string {
+  const offset = trail.trailingAmount ?? dec.mul(peak, trail.trailingRate ?? "0");
+  return side === "sell"
+    ? roundPrice(pair, dec.sub(peak, offset), "floor")
+    : roundPrice(pair, dec.add(peak, offset), "ceil");
+}
+
+/**
+ * Run a persisted order through the matching engine, record the trades and
+ * settle every fill, then write back the order's quantity, filled quantity
+ * and status (self-trade prevention may have decremented the quantity).
+ * Only the unfilled part is matched, so an amended order can be run again.
+ * Whatever is left of a resting order joins the book.
+ * Runs within a DB transaction inside withOrderBook — the caller wraps this.
+ */
+export async function executeOrder(
+  tx: Tx,
+  book: OrderBook,
+  order: Order
+): Promise<MatchResult & { quantity: string; filledQuantity: string }> {
+  const pair = order.pair as PairKey;
+  const pairConfig = PAIRS[pair];
+  const side = order.side as "buy" | "sell";
+
+  // Reduce-only: cap at the opposing position as it stands now (a triggered
+  // stop may have been placed against a larger position)
+  if (order.reduceOnly) {
+    const reducible = await getReducibleQuantity(tx, order);
+    if (!dec.isPositive(reducible)) {
+      await tx
+        .update(orders)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(orders.id, order.id));
+      return {
+        fills: [],
+        remainingQuantity: dec.sub(order.quantity, order.filledQuantity),
+        orderStatus: "cancelled",
+        selfTrade: null,
+        quantity: order.quantity,
+        filledQuantity: order.filledQuantity,
+      };
+    }
+    const cappedQuantity = dec.add(order.filledQuantity, reducible);
+    if (dec.lt(cappedQuantity, order.quantity)) {
+      order = { ...order, quantity: cappedQuantity };
+      await tx
+        .update(orders)
+        .set({ quantity: order.quantity, updatedAt: new Date() })
+        .where(eq(orders.id, order.id));
+    }
+  }
+
+  const executionType = getExecutionType(order.type as OrderType);
+  if (executionType === "market") {
+    order = await prepareMarketOrder(tx, book, order);
+  }
+
+  const matchResult = await matchOrder(tx, book, {
+    id: order.id,
+    userId: order.userId,
+    pair,
+    side,
+    type: executionType,
+    price: order.price,
+    quantity: dec.sub(order.quantity, order.filledQuantity),
+    timeInForce: order.timeInForce as TimeInForce,
+    protectionPrice: order.protectionPrice,
+    stpMode: (order.stpMode as StpMode | null) ?? undefined,
+  });
+
+  for (const fill of matchResult.fills) {
+    await settleFill(tx, order, fill);
+  }
+
+  // Decrement-and-cancel takes quantity off the order without trading it
+  const decremented = matchResult.selfTrade?.decrementedQuantity ?? "0";
+  const quantity = dec.sub(order.quantity, decremented);
+  const filledQty = dec.sub(quantity, matchResult.remainingQuantity);
+  // An order re-run after an amendment keeps what it filled earlier
+  const orderStatus =
+    matchResult.orderStatus === "open" && dec.isPositive(filledQty)
+      ? "partial"
+      : matchResult.orderStatus;
+  const isResting = orderStatus === "open" || orderStatus === "partial";
+
+  // Settlement has debited what the fills cost, so the matching part of the
+  // reservation goes back — all of it once nothing is left to rest
+  const released = isResting
+    ? reservationShare(
+        order,
+        dec.add(dec.sub(filledQty, order.filledQuantity), decremented)
+      )
+    : dec.normalize(order.reservedAmount);
+  await releaseFunds(tx, order, released);
+
+  await tx
+    .update(orders)
+    .set({
+      quantity,
+      filledQuantity: filledQty,
+      status: orderStatus,
+      reservedAmount: dec.sub(order.reservedAmount, released),
+      updatedAt: new Date(),
+    })
+    .where(eq(orders.id, order.id));
+
+  if (isResting) {
+    book.add(toBookOrder({ ...order, quantity, filledQuantity: filledQty }));
+  }
+
+  // Shrunk or closed positions may leave resting reduce-only orders oversized
+  if (pairConfig.type === "futures") {
+    const affectedUsers = new Set([
+      order.userId,
+      ...matchResult.fills.map((f) => f.makerUserId),
+    ]);
+    for (const userId of affectedUsers) {
+      await pruneReduceOnlyOrders(tx, book, userId, pair as FuturesPair);
+    }
+  }
+
+  return { ...matchResult, orderStatus, quantity, filledQuantity: filledQty };
+}
+
+/**
+ * Record a fill as a trade and settle it between the taker order and the
+ * maker. Auction fills are marked as such on the trade record; makerOnly
+ * leaves the taker's side to the caller (liquidations).
+ */
+export async function settleFill(
+  tx: Tx,
+  takerOrder: Order,
+  fill: Fill,
+  options: { auction?: boolean; makerOnly?: boolean } = {}
+): Promise<void> {
+  const pair = takerOrder.pair as PairKey;
+  const side = takerOrder.side as "buy" | "sell";
+
+  await tx.insert(trades).values({
+    pair,
+    makerOrderId: fill.makerOrderId,
+    takerOrderId: takerOrder.id,
+    makerUserId: fill.makerUserId,
+    takerUserId: takerOrder.userId,
+    price: fill.price,
+    quantity: fill.quantity,
+    makerFee: fill.makerFee,
+    takerFee: fill.takerFee,
+    auction: options.auction ?? false,
+  });
+
+  if (PAIRS[pair].type === "spot") {
+    await settleSpotTrade(tx, fill, {
+      id: takerOrder.id,
+      userId: takerOrder.userId,
+      side,
+    });
+  } else {
+    await settleFuturesTrade(
+      tx,
+      fill,
+      {
+        id: takerOrder.id,
+        userId: takerOrder.userId,
+        side,
+        collateralCurrency: takerOrder.collateralCurrency ?? "USDT",
+        leverage: parseFloat(takerOrder.leverage ?? "1"),
+        takeProfitPrice: takerOrder.takeProfitPrice,
+        stopLossPrice: takerOrder.stopLossPrice,
+        reduceOnly: takerOrder.reduceOnly,
+      },
+      pair as FuturesPair,
+      { makerOnly: options.makerOnly }
+    );
+  }
+}
+
+/**
+ * The worst price a market order may reach: maxSlippage away from the best
+ * opposite price, rounded to the tick on the cautious side. Null on an empty
+ * side — there is nothing to sweep.
+ */
+export function calculateProtectionPrice(
+  book: OrderBook,
+  order: { pair: PairKey; side: "buy" | "sell"; maxSlippage: string }
+): string | null {
+  const bestPrice = book.bestPrice(order.side === "buy" ? "sell" : "buy");
+  if (!bestPrice) return null;
+  return order.side === "buy"
+    ? roundPrice(order.pair, dec.mul(bestPrice, dec.add(1, order.maxSlippage)), "floor")
+    : roundPrice(order.pair, dec.mul(bestPrice, dec.sub(1, order.maxSlippage)), "ceil");
+}
+
+/**
+ * Fix a market order's protection price from its maxSlippage and the best
+ * opposite price as the book stands now, then reserve funds for the part of
+ * it the book can fill, at the worst price the sweep would reach. Orders that
+ * already hold a reservation (spot sells) or reserve nothing are left as is.
+ */
+async function prepareMarketOrder(
+  tx: Tx,
+  book: OrderBook,
+  order: Order
+): Promise<Order> {
+  const pair = order.pair as PairKey;
+  const side = order.side as "buy" | "sell";
+
+  const protectionPrice =
+    order.protectionPrice ??
+    (order.maxSlippage
+      ? calculateProtectionPrice(book, { pair, side, maxSlippage: order.maxSlippage })
+      : null);
+
+  let reservation: Reservation | null = null;
+  if (!order.reservedCurrency) {
+    const sweep = estimateSweep(
+      book,
+      { userId: order.userId, side, limitPrice: protectionPrice },
+      { quantity: dec.sub(order.quantity, order.filledQuantity) }
+    );
+    reservation = calculateReservation(order, sweep.quantity, sweep.worstPrice);
+    if (reservation) await reserveFunds(tx, order.userId, reservation);
+  }
+
+  if (protectionPrice === order.protectionPrice && !reservation) return order;
+
+  const [prepared] = await tx
+    .update(orders)
+    .set({
+      protectionPrice,
+      ...(reservation && {
+        reservedAmount: reservation.amount,
+        reservedCurrency: reservation.currency,
+      }),
+      updatedAt: new Date(),
+    })
+    .where(eq(orders.id, order.id))
+    .returning();
+  return prepared;
+}
+
+/**
+ * Quantity a reduce-only order may still trade: the size of the user's open
+ * position on the opposite side (sells reduce longs, buys reduce shorts).
+ */
+export async function getReducibleQuantity(
+  tx: Tx,
+  order: Pick<Order, "userId" | "pair" | "side">
+): Promise<string> {
+  const [pos] = await tx
+    .select({ quantity: positions.quantity })
+    .from(positions)
+    .where(
+      and(
+        eq(positions.userId, order.userId),
+        eq(positions.contract, order.pair),
+        eq(positions.side, order.side === "sell" ? "long" : "short"),
+        eq(positions.status, "open")
+      )
+    );
+  return pos?.quantity ?? "0";
+}
+
+/**
+ * Cancel a pending, open or partial order, take it off the book and release
+ * its locked funds. The order row must already be locked by the caller.
+ */
+export async function cancelOrder(
+  tx: Tx,
+  book: OrderBook,
+  order: Order,
+  reason?: string
+): Promise<Order> {
+  if (
+    order.status !== "pending" &&
+    order.status !== "open" &&
+    order.status !== "partial"
+  ) {
+    throw new Error("Only pending, open or partial orders can be cancelled");
+  }
+
+  await releaseFunds(tx, order, order.reservedAmount);
+
+  const [cancelled] = await tx
+    .update(orders)
+    .set({
+      status: "cancelled",
+      cancelReason: reason ?? null,
+      reservedAmount: "0",
+      updatedAt: new Date(),
+    })
+    .where(eq(orders.id, order.id))
+    .returning();
+  book.remove(order.id);
+
+  return cancelled;
+}
+
+/**
+ * Cancel all of a user's pending, open and partial orders — optionally only
+ * on one pair and/or side — in a single transaction, releasing every
+ * reservation. Halted markets are skipped. Returns the cancelled orders.
+ */
+export async function cancelAllOrders(
+  userId: string,
+  filter: { pair?: string; side?: "buy" | "sell" } = {}
+): Promise<Order[]> {
+  const conditions = [
+    eq(orders.userId, userId),
+    sql`${orders.status} IN ('pending', 'open', 'partial')`,
+  ];
+  if (filter.pair) conditions.push(eq(orders.pair, filter.pair));
+  if (filter.side) conditions.push(eq(orders.side, filter.side));
+
+  const pairs = (
+    await db
+      .selectDistinct({ pair: orders.pair })
+      .from(orders)
+      .where(and(...conditions))
+  ).map((row) => row.pair);
+
+  // Orders on a halted market stay put; asking for that market alone is an error
+  const cancellable: string[] = [];
+  for (const pair of pairs) {
+    const marketError = checkMarketAllows(await getMarketState(pair as PairKey), "cancel");
+    if (!marketError) {
+      cancellable.push(pair);
+    } else if (filter.pair) {
+      throw new Error(marketError);
+    }
+  }
+  if (cancellable.length === 0) return [];
+
+  return withOrderBooks(cancellable, async (books, tx) => {
+    const open = await tx
+      .select()
+      .from(orders)
+      .where(and(...conditions, inArray(orders.pair, cancellable)))
+      .for("update");
+
+    const cancelled: Order[] = [];
+    for (const order of open) {
+      cancelled.push(await cancelOrder(tx, books.get(order.pair)!, order));
+    }
+    return cancelled;
+  });
+}
+
+/**
+ * Amend the price and/or quantity of a pending or resting limit order.
+ * A pure quantity decrease keeps the order's place in the queue; a price
+ * change or a larger quantity sends it to the back of its level and runs it
+ * through matching again. Locked funds move by the difference only.
+ * A new price must sit inside the band around referencePrice.
+ * The order row must already be locked by the caller.
+ */
+export async function amendOrder(
+  tx: Tx,
+  book: OrderBook,
+  order: Order,
+  changes: { price?: string; quantity?: string },
+  referencePrice?: string
+): Promise<{ order: Order; fills: Fill[]; selfTrade: SelfTradeOutcome | null }> {
+  if (
+    order.status !== "pending" &&
+    order.status !== "open" &&
+    order.status !== "partial"
+  ) {
+    throw new Error("Only pending, open or partial orders can be amended");
+  }
+  if (getExecutionType(order.type as OrderType) !== "limit") {
+    throw new Error("Only limit orders can be amended");
+  }
+
+  const pair = order.pair as PairKey;
+  const price = changes.price ?? order.price!;
+  const quantity = changes.quantity ?? order.quantity;
+
+  // A larger futures order is tiered with the position and the user's other
+  // working orders on its side
+  const growsPosition =
+    PAIRS[pair].type === "futures" && !order.reduceOnly && dec.gt(quantity, order.quantity);
+
+  // A price left alone is not re-checked against a band that has since moved
+  const [violation] = checkOrderRules(
+    pair,
+    {
+      price,
+      quantity,
+      ...(growsPosition && {
+        leverage: parseFloat(order.leverage ?? "1"),
+        // Its filled part is already in the position, the rest in working orders
+        positionQuantity: dec.sub(
+          await getSameSideQuantity(order.userId, pair, order.side as "buy" | "sell"),
+          order.quantity
+        ),
+      }),
+    },
+    changes.price ? referencePrice : null
+  );
+  if (violation) throw new OrderRuleError(violation);
+  if (dec.lte(quantity, order.filledQuantity)) {
+    throw new Error(
+      `Quantity must be greater than the filled quantity (${order.filledQuantity})`
+    );
+  }
+
+  const priceChanged = !dec.eq(price, order.price!);
+  const quantityChanged = !dec.eq(quantity, order.quantity);
+  if (!priceChanged && !quantityChanged) return { order, fills: [], selfTrade: null };
+
+  if (priceChanged && (order.takeProfitPrice || order.stopLossPrice)) {
+    const bracketError = validateBrackets(
+      order.side === "buy" ? "long" : "short",
+      price,
+      order.takeProfitPrice,
+      order.stopLossPrice
+    );
+    if (bracketError) throw new Error(bracketError);
+  }
+
+  // Move reserved funds by the difference between the old and new reservation
+  const reservation = calculateReservation(
+    { ...order, price },
+    dec.sub(quantity, order.filledQuantity)
+  );
+  const reservedAmount = reservation?.amount ?? "0";
+  const difference = dec.sub(reservedAmount, order.reservedAmount);
+  if (reservation && dec.isPositive(difference)) {
+    await reserveFunds(tx, order.userId, {
+      currency: reservation.currency,
+      amount: difference,
+    });
+  } else {
+    await releaseFunds(tx, order, dec.neg(difference));
+  }
+
+  // Pending stops are not on the book yet, so there is no queue to lose
+  const requeue =
+    order.status !== "pending" &&
+    (priceChanged || dec.gt(quantity, order.quantity));
+
+  const [amended] = await tx
+    .update(orders)
+    .set({
+      price,
+      quantity,
+      reservedAmount,
+      ...(requeue && { requeuedAt: new Date() }),
+      updatedAt: new Date(),
+    })
+    .where(eq(orders.id, order.id))
+    .returning();
+
+  if (order.status === "pending") {
+    return { order: amended, fills: [], selfTrade: null };
+  }
+  if (!requeue) {
+    book.update(order.id, { quantity });
+    return { order: amended, fills: [], selfTrade: null };
+  }
+
+  book.remove(order.id);
+  const result = await executeOrder(tx, book, amended);
+  return {
+    order: {
+      ...amended,
+      quantity: result.quantity,
+      filledQuantity: result.filledQuantity,
+      status: result.orderStatus,
+    },
+    fills: result.fills,
+    selfTrade: result.selfTrade,
+  };
+}
+
+/**
+ * Cancel good-till-date orders whose expiry has passed.
+ * Called by the /api/trading/expire endpoint (cron/manual).
+ */
+export async function expireOrders(): Promise<{ expiredCount: number }> {
+  const expired = await db
+    .select({ id: orders.id, pair: orders.pair })
+    .from(orders)
+    .where(
+      and(
+        eq(orders.timeInForce, "gtd"),
+        sql`${orders.status} IN ('pending', 'open', 'partial')`,
+        sql`${orders.expiresAt} <= NOW()`
+      )
+    );
+
+  let expiredCount = 0;
+  for (const { id, pair } of expired) {
+    const didExpire = await withOrderBook(pair, async (book, tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(
+          and(
+            eq(orders.id, id),
+            sql`${orders.status} IN ('pending', 'open', 'partial')`
+          )
+        )
+        .for("update");
+
+      // Filled or cancelled since the scan
+      if (!order) return false;
+
+      await cancelOrder(tx, book, order);
+      return true;
+    });
+    if (didExpire) expiredCount++;
+  }
+
+  return { expiredCount };
+}
@@ -0,0 +1,429 @@
+import { z } from "zod";
+import { eq, and } from "drizzle-orm";
+import { orders, users } from "@/lib/db/schema";
+import type { Tx } from "@/lib/db";
+import { MAX_LEVERAGE, PAIRS } from "@/lib/trading/constants";
+import type { FuturesPair } from "@/lib/trading/constants";
+import type { Fill, Order, SelfTradeOutcome } from "@/lib/trading/types";
+import { getOpenPositionForContract, getSameSideQuantity } from "@/lib/db/queries/trading";
+import * as dec from "@/lib/trading/decimal";
+import { roundQuantity } from "@/lib/trading/decimal";
+import { checkOrderRules } from "@/lib/trading/rules";
+import type { RuleCode } from "@/lib/trading/rules";
+import {
+  calculateProtectionPrice,
+  calculateTrailingTrigger,
+  executeOrder,
+  getExecutionType,
+  isStopOrder,
+} from "./orders";
+import { checkMarketAllows, getMarketState } from "./markets";
+import { estimateSweep } from "./orderbook";
+import type { OrderBook } from "./orderbook";
+import { getMarkPrice, getReferencePrice } from "./prices";
+import { validateBrackets } from "./positions";
+import { calculateReservation, reserveFunds } from "./reservations";
+
+/**
+ * Order placement shared by the single and batch order endpoints: request
+ * validation up front, then reservation, insert and matching inside the
+ * caller's transaction.
+ */
+
+const positiveDecimal = (message: string) =>
+  z.string().refine((val) => {
+    const num = Number(val);
+    return val.trim() !== "" && !isNaN(num) && num > 0;
+  }, message);
+
+export const orderRequestSchema = z.object({
+  clientOrderId: z.string().trim().min(1).max(64).optional(), // unique per user
+  pair: z.enum(["USDT-USDC", "XAU-PERP", "XAG-PERP"]),
+  side: z.enum(["buy", "sell"]),
+  type: z.enum(["limit", "market", "stop_market", "stop_limit", "trailing_stop"]),
+  price: positiveDecimal("Price must be positive").optional(),
+  triggerPrice: positiveDecimal("Trigger price must be positive").optional(),
+  trailingAmount: positiveDecimal("Trailing amount must be positive").optional(), // trailing_stop only
+  trailingRate: z.number().gt(0).lt(1).optional(), // trailing_stop only — fraction of the peak mark
+  quantity: positiveDecimal("Quantity must be positive").optional(),
+  displayQuantity: positiveDecimal("Display quantity must be positive").optional(), // iceberg — limit only
+  quoteQuantity: positiveDecimal("Quote quantity must be positive").optional(), // spot market only
+  maxSlippage: z.number().gt(0).lt(1).optional(), // market only — fraction of the best price
+  protectionPrice: positiveDecimal("Protection price must be positive").optional(), // market only
+  collateralCurrency: z.enum(["USDT", "USDC"]).optional(),
+  leverage: z.number().min(1).max(MAX_LEVERAGE).optional(),
+  takeProfitPrice: positiveDecimal("Take-profit price must be positive").optional(),
+  stopLossPrice: positiveDecimal("Stop-loss price must be positive").optional(),
+  timeInForce: z.enum(["gtc", "ioc", "fok", "gtd", "post_only"]).default("gtc"),
+  expiresAt: z.iso.datetime().optional(), // gtd only
+  reduceOnly: z.boolean().default(false), // futures only
+  stpMode: z
+    .enum(["cancel_newest", "cancel_oldest", "cancel_both", "decrement_and_cancel"])
+    .optional(), // defaults to the account's mode
+});
+
+export type OrderRequest = z.infer<typeof orderRequestSchema>;
+
+/** A validated request. Quote-sized orders have no quantity yet. */
+export type PreparedOrderRequest = Omit<OrderRequest, "quantity"> & {
+  quantity: string | null;
+  trailingPeak?: string; // trailing stops start from the mark at placement
+  parentId?: string; // TWAP slices link back to their parent
+};
+
+export interface PlacedOrder {
+  order: Order;
+  fills: Fill[];
+  selfTrade: SelfTradeOutcome | null;
+}
+
+/** A rejected request. Instrument rule violations carry their code and field. */
+export interface OrderRequestError {
+  error: string;
+  code?: RuleCode;
+  field?: string;
+}
+
+/**
+ * Validate an order request. Prices and quantities are checked against the
+ * pair's trading rules as submitted, never rounded. `unplacedQuantity` is
+ * same-side quantity prepared alongside it but not yet placed (earlier
+ * orders in a batch). Returns the error, or the prepared request.
+ */
+export async function prepareOrderRequest(
+  userId: string,
+  input: OrderRequest,
+  unplacedQuantity: string = "0"
+): Promise<OrderRequestError | { request: PreparedOrderRequest }> {
+  const pairConfig = PAIRS[input.pair];
+
+  const marketError = checkMarketAllows(await getMarketState(input.pair), "place", input);
+  if (marketError) {
+    return { error: marketError };
+  }
+
+  // Quote-sized orders get their quantity from the book once it is locked
+  let quantity = input.quantity ?? null;
+  let trailingPeak: string | undefined;
+
+  if (!quantity === !input.quoteQuantity) {
+    return { error: "Orders require either a quantity or a quoteQuantity" };
+  }
+
+  // Validate limit orders have price
+  if ((input.type === "limit" || input.type === "stop_limit") && !input.price) {
+    return { error: "Limit orders require a price" };
+  }
+
+  // Validate market orders don't have price
+  if (getExecutionType(input.type) === "market" && input.price) {
+    return { error: "Market orders cannot specify a price" };
+  }
+
+  // Validate stop orders: futures only, trigger must not already be crossed
+  if (isStopOrder(input.type)) {
+    if (pairConfig.type !== "futures") {
+      return { error: "Stop orders are only available on futures" };
+    }
+    const markData = await getMarkPrice(input.pair as FuturesPair);
+    const markPrice = markData.markPrice;
+
+    if (input.type === "trailing_stop") {
+      // The trigger trails the mark from here; the trigger sweep moves it
+      if (input.triggerPrice) {
+        return { error: "Trailing stops derive their trigger from trailingAmount or trailingRate" };
+      }
+      if (!input.trailingAmount === (input.trailingRate === undefined)) {
+        return { error: "Trailing stops require either a trailingAmount or a trailingRate" };
+      }
+      trailingPeak = markPrice;
+      input.triggerPrice = calculateTrailingTrigger(input.pair, input.side, markPrice, {
+        trailingAmount: input.trailingAmount,
+        trailingRate: input.trailingRate !== undefined ? dec.normalize(input.trailingRate) : null,
+      });
+      if (!dec.isPositive(input.triggerPrice)) {
+        return { error: "Trailing distance must be less than the mark price" };
+      }
+      // A trailing stop closes the position it follows
+      input.reduceOnly = true;
+    } else {
+      const triggerPrice = input.triggerPrice;
+      if (!triggerPrice || !dec.isPositive(triggerPrice)) {
+        return { error: "Stop orders require a positive triggerPrice" };
+      }
+      // Buy stops trigger when the mark rises to the trigger, sell stops when it falls
+      if (
+        (input.side === "buy" && dec.lte(triggerPrice, markPrice)) ||
+        (input.side === "sell" && dec.gte(triggerPrice, markPrice))
+      ) {
+        return {
+          error: `Trigger price would fire immediately (mark price $${dec.toNumber(markPrice).toFixed(2)})`,
+        };
+      }
+    }
+  } else if (input.triggerPrice) {
+    return { error: "Only stop orders can specify a triggerPrice" };
+  }
+  if (
+    input.type !== "trailing_stop" &&
+    (input.trailingAmount || input.trailingRate !== undefined)
+  ) {
+    return { error: "Only trailing stops can specify trailingAmount or trailingRate" };
+  }
+
+  // Validate futures-specific fields
+  if (pairConfig.type === "futures") {
+    if (!input.collateralCurrency) {
+      return { error: "Futures orders require collateralCurrency" };
+    }
+    if (!input.leverage) {
+      return { error: "Futures orders require leverage" };
+    }
+  }
+
+  // Validate slippage protection and quote sizing: market orders only
+  const isMarketType = getExecutionType(input.type) === "market";
+  if (!isMarketType && (input.maxSlippage || input.protectionPrice)) {
+    return { error: "Only market orders can specify maxSlippage or protectionPrice" };
+  }
+  if (input.maxSlippage && input.protectionPrice) {
+    return { error: "Specify maxSlippage or protectionPrice, not both" };
+  }
+  if (input.quoteQuantity && (pairConfig.type !== "spot" || input.type !== "market")) {
+    return { error: "Quote quantity is only available for USDT-USDC market orders" };
+  }
+
+  // Validate iceberg orders: a resting limit order showing part of itself
+  if (input.displayQuantity) {
+    if (isMarketType) {
+      return { error: "Only limit orders can specify a displayQuantity" };
+    }
+    if (input.timeInForce === "ioc" || input.timeInForce === "fok") {
+      return { error: `Iceberg orders do not support ${input.timeInForce}` };
+    }
+    if (quantity && dec.gte(input.displayQuantity, quantity)) {
+      return { error: "Display quantity must be less than the order quantity" };
+    }
+  }
+
+  // Validate time in force: only limit orders can rest or be post-only
+  if (
+    isMarketType &&
+    (input.timeInForce === "gtd" || input.timeInForce === "post_only")
+  ) {
+    return { error: `Market orders do not support ${input.timeInForce}` };
+  }
+  if (isStopOrder(input.type) && input.timeInForce === "post_only") {
+    return { error: "Stop orders do not support post_only" };
+  }
+  if (input.timeInForce === "gtd") {
+    if (!input.expiresAt || new Date(input.expiresAt) <= new Date()) {
+      return { error: "GTD orders require a future expiresAt" };
+    }
+  } else if (input.expiresAt) {
+    return { error: "Only GTD orders can specify expiresAt" };
+  }
+
+  // Validate reduce-only: needs an opposing position and never carries brackets
+  if (input.reduceOnly) {
+    if (pairConfig.type !== "futures") {
+      return { error: "Reduce-only is only available on futures" };
+    }
+    if (input.takeProfitPrice || input.stopLossPrice) {
+      return { error: "Reduce-only orders cannot carry take-profit or stop-loss" };
+    }
+    const opposingPos = await getOpenPositionForContract(
+      userId,
+      input.pair,
+      input.side === "sell" ? "long" : "short"
+    );
+    if (!opposingPos) {
+      return { error: "Reduce-only order has no position to reduce" };
+    }
+    // Cap at the position size
+    if (quantity && dec.gt(quantity, opposingPos.quantity)) {
+      quantity = opposingPos.quantity;
+    }
+  }
+
+  // Validate take-profit / stop-loss brackets against the expected entry
+  if (input.takeProfitPrice || input.stopLossPrice) {
+    if (pairConfig.type !== "futures") {
+      return { error: "Take-profit and stop-loss are only available on futures" };
+    }
+    const referencePrice =
+      input.price ??
+      input.triggerPrice ??
+      (await getMarkPrice(input.pair as FuturesPair)).markPrice;
+    const bracketError = validateBrackets(
+      input.side === "buy" ? "long" : "short",
+      referencePrice,
+      input.takeProfitPrice,
+      input.stopLossPrice
+    );
+    if (bracketError) {
+      return { error: bracketError };
+    }
+  }
+
+  // A futures order that adds to a position is tiered on the combined size
+  const positionQuantity =
+    pairConfig.type === "futures" && !input.reduceOnly
+      ? dec.add(await getSameSideQuantity(userId, input.pair, input.side), unplacedQuantity)
+      : null;
+
+  // Instrument rules last, against the quantity that will actually be placed
+  const [violation] = checkOrderRules(
+    input.pair,
+    {
+      ...input,
+      quantity,
+      leverage: input.reduceOnly ? null : input.leverage,
+      positionQuantity,
+    },
+    await getReferencePrice(input.pair)
+  );
+  if (violation) {
+    return { error: violation.message, code: violation.code, field: violation.field };
+  }
+
+  return { request: { ...input, quantity, trailingPeak } };
+}
+
+/**
+ * Reserve funds for a prepared order, insert it and run it through matching.
+ * Runs within a DB transaction inside withOrderBook — the caller wraps this.
+ */
+export async function placeOrder(
+  tx: Tx,
+  book: OrderBook,
+  user: { id: string; stpMode: string },
+  input: PreparedOrderRequest
+): Promise<PlacedOrder> {
+  const pairConfig = PAIRS[input.pair];
+  let quantity = input.quantity;
+
+  // Hold off a margin mode switch until this order is in
+  if (pairConfig.type === "futures") {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, user.id)).for("share");
+  }
+
+  if (input.clientOrderId) {
+    const [existing] = await tx
+      .select({ id: orders.id })
+      .from(orders)
+      .where(
+        and(
+          eq(orders.userId, user.id),
+          eq(orders.clientOrderId, input.clientOrderId)
+        )
+      );
+    if (existing) {
+      throw new Error(`Duplicate clientOrderId: ${input.clientOrderId}`);
+    }
+  }
+
+  // Size a quote order by walking the book: as much base as the quote
+  // amount buys, or as little as it takes to raise it on a sell
+  let protectionPrice = input.protectionPrice ?? null;
+  const maxSlippage =
+    input.maxSlippage !== undefined ? dec.normalize(input.maxSlippage) : null;
+  if (input.quoteQuantity) {
+    if (maxSlippage) {
+      protectionPrice = calculateProtectionPrice(book, {
+        pair: input.pair,
+        side: input.side,
+        maxSlippage,
+      });
+    }
+    const sweep = estimateSweep(
+      book,
+      { userId: user.id, side: input.side, limitPrice: protectionPrice },
+      { quoteAmount: input.quoteQuantity }
+    );
+    quantity = roundQuantity(input.pair, sweep.quantity);
+    if (dec.lt(quantity, pairConfig.minQuantity)) {
+      throw new Error(
+        `Minimum quantity is ${pairConfig.minQuantity} — not enough liquidity for that quote amount`
+      );
+    }
+  }
+  const orderQuantity = quantity!;
+
+  // Reserve what the order may spend: limit buys hold the quote they
+  // will pay, sells the base they will deliver, futures their margin
+  // and fee. Market buys and futures market orders reserve when they
+  // execute, at the worst price their sweep reaches; reduce-only
+  // orders reserve nothing.
+  const leverage = input.leverage?.toFixed(2) ?? null;
+  const reservation = calculateReservation(
+    {
+      pair: input.pair,
+      side: input.side,
+      price: input.price ?? null,
+      leverage,
+      collateralCurrency: input.collateralCurrency ?? null,
+      reduceOnly: input.reduceOnly,
+    },
+    orderQuantity
+  );
+  if (reservation) {
+    await reserveFunds(tx, user.id, reservation);
+  }
+
+  // Stop orders rest dormant until the trigger sweep activates them
+  const isStop = isStopOrder(input.type);
+
+  // Insert order
+  const [order] = await tx
+    .insert(orders)
+    .values({
+      userId: user.id,
+      clientOrderId: input.clientOrderId ?? null,
+      parentId: input.parentId ?? null,
+      pair: input.pair,
+      side: input.side,
+      type: input.type,
+      price: input.price ?? null,
+      triggerPrice: input.triggerPrice ?? null,
+      trailingAmount: input.trailingAmount ?? null,
+      trailingRate:
+        input.trailingRate !== undefined ? dec.normalize(input.trailingRate) : null,
+      trailingPeak: input.trailingPeak ?? null,
+      quantity: orderQuantity,
+      displayQuantity: input.displayQuantity ?? null,
+      quoteQuantity: input.quoteQuantity ?? null,
+      maxSlippage,
+      protectionPrice,
+      status: isStop ? "pending" : "open",
+      timeInForce: input.timeInForce,
+      stpMode: input.stpMode ?? user.stpMode,
+      expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+      collateralCurrency: input.collateralCurrency ?? null,
+      leverage,
+      reservedAmount: reservation?.amount ?? "0",
+      reservedCurrency: reservation?.currency ?? null,
+      reduceOnly: input.reduceOnly,
+      takeProfitPrice: input.takeProfitPrice ?? null,
+      stopLossPrice: input.stopLossPrice ?? null,
+    })
+    .returning();
+
+  if (isStop) {
+    return { order, fills: [], selfTrade: null };
+  }
+
+  // Run matching engine and settle fills
+  const matchResult = await executeOrder(tx, book, order);
+
+  return {
+    order: {
+      ...order,
+      quantity: matchResult.quantity,
+      filledQuantity: matchResult.filledQuantity,
+      status: matchResult.orderStatus,
+    },
+    fills: matchResult.fills,
+    selfTrade: matchResult.selfTrade,
+  };
+}
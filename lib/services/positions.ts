@@ -0,0 +1,514 @@
+import { eq, and, sql } from "drizzle-orm";
+import { orders, positions, wallets, transactions } from "@/lib/db/schema";
+import type { Tx } from "@/lib/db";
+import { PAIRS } from "@/lib/trading/constants";
+import type { FuturesPair } from "@/lib/trading/constants";
+import type { Position } from "@/lib/trading/types";
+import { matchOrder, pruneReduceOnlyOrders } from "./matching";
+import { settleFill } from "./orders";
+import {
+  calculateInitialMargin,
+  calculateLiquidationPriceFromMargin,
+  calculateMaintenanceMargin,
+  calculateNotional,
+  calculateTierInitialMargin,
+  calculateUnrealizedPnl,
+  isLiquidatable,
+} from "./margin";
+import * as dec from "@/lib/trading/decimal";
+import { getRiskTier } from "@/lib/trading/risk";
+import type { OrderBook } from "./orderbook";
+
+/**
+ * Close (fully or partially) an open position with a market order on the
+ * opposite side. The position row must already be locked by the caller.
+ * Runs within a DB transaction inside withOrderBook — the caller wraps this.
+ */
+export async function closePosition(
+  tx: Tx,
+  book: OrderBook,
+  pos: Position,
+  quantity?: string,
+  reason: string = "Close"
+): Promise<{ position: Position; pnl: string; filledQuantity: string }> {
+  const closeQty = quantity
+    ? dec.min(dec.roundQuantity(pos.contract as FuturesPair, quantity), pos.quantity)
+    : pos.quantity;
+
+  if (!dec.isPositive(closeQty)) {
+    throw new Error("Close quantity must be positive");
+  }
+
+  const contract = pos.contract as FuturesPair;
+  const pairConfig = PAIRS[contract];
+
+  // Place a market order on the opposite side to close
+  const closeSide = pos.side === "long" ? "sell" : "buy";
+
+  const [closeOrder] = await tx
+    .insert(orders)
+    .values({
+      userId: pos.userId,
+      pair: contract,
+      side: closeSide,
+      type: "market",
+      quantity: closeQty,
+      status: "open",
+      collateralCurrency: pos.collateralCurrency,
+      leverage: pos.leverage,
+    })
+    .returning();
+
+  // Run matching engine
+  const matchResult = await matchOrder(tx, book, {
+    id: closeOrder.id,
+    userId: pos.userId,
+    pair: contract,
+    side: closeSide,
+    type: "market",
+    price: null,
+    quantity: closeQty,
+    // A close is never blocked by the user's own resting orders
+    stpMode: "cancel_oldest",
+  });
+
+  // Settle the makers' side; the closed position is settled below
+  for (const fill of matchResult.fills) {
+    await settleFill(tx, closeOrder, fill, { makerOnly: true });
+  }
+
+  // Calculate PnL on filled portion
+  const filledQty = dec.sub(closeQty, matchResult.remainingQuantity);
+
+  // If no fills, the position can't be closed (no liquidity)
+  if (!dec.isPositive(filledQty)) {
+    throw new Error("Unable to close position: no matching orders in the book");
+  }
+
+  // Use the average fill price for PnL calculation
+  // PnL per fill, summed — no rounding through an average price
+  const pnl = dec.sum(
+    matchResult.fills.map((fill) =>
+      calculateUnrealizedPnl(
+        pos.side as "long" | "short",
+        pos.entryPrice,
+        fill.price,
+        fill.quantity,
+        pairConfig.contractSize
+      )
+    )
+  );
+
+  const remainingQty = dec.sub(pos.quantity, filledQty);
+  const fullyClosed = dec.isZero(remainingQty);
+
+  // Release proportional margin — all of it on a full close
+  const marginRelease = fullyClosed
+    ? pos.margin
+    : dec.mulDiv(pos.margin, filledQty, pos.quantity, "floor");
+
+  if (fullyClosed) {
+    // Fully closed — take-profit and stop-loss go with it
+    await tx
+      .update(positions)
+      .set({
+        quantity: "0",
+        status: "closed",
+        takeProfitPrice: null,
+        stopLossPrice: null,
+        realizedPnl: sql`${positions.realizedPnl} + ${pnl}::decimal`,
+        updatedAt: new Date(),
+      })
+      .where(eq(positions.id, pos.id));
+  } else {
+    // Partially closed
+    await tx
+      .update(positions)
+      .set({
+        quantity: remainingQty,
+        margin: dec.sub(pos.margin, marginRelease),
+        realizedPnl: sql`${positions.realizedPnl} + ${pnl}::decimal`,
+        updatedAt: new Date(),
+      })
+      .where(eq(positions.id, pos.id));
+  }
+
+  // Credit PnL + margin to wallet, less the taker fee
+  const fee = dec.sum(matchResult.fills.map((fill) => fill.takerFee));
+  const totalCredit = dec.sub(dec.add(pnl, marginRelease), fee);
+  const [wallet] = await tx
+    .select()
+    .from(wallets)
+    .where(
+      and(
+        eq(wallets.userId, pos.userId),
+        eq(wallets.currency, pos.collateralCurrency)
+      )
+    )
+    .for("update");
+
+  if (wallet) {
+    await tx
+      .update(wallets)
+      .set({
+        balance: sql`${wallets.balance} + ${totalCredit}::decimal`,
+        availableBalance: sql`${wallets.availableBalance} + ${totalCredit}::decimal`,
+        updatedAt: new Date(),
+      })
+      .where(eq(wallets.id, wallet.id));
+
+    const [updated] = await tx
+      .select({ balance: wallets.balance })
+      .from(wallets)
+      .where(eq(wallets.id, wallet.id));
+
+    await tx.insert(transactions).values({
+      userId: pos.userId,
+      walletId: wallet.id,
+      type: "margin_release",
+      currency: pos.collateralCurrency,
+      amount: totalCredit,
+      balanceAfter: updated.balance,
+      referenceId: pos.id,
+      referenceType: "position",
+      description: `${reason} ${pos.contract} ${pos.side} — PnL: $${dec.toNumber(pnl).toFixed(2)}, fee: $${dec.toNumber(fee).toFixed(2)}`,
+    });
+  }
+
+  // Update close order status
+  await tx
+    .update(orders)
+    .set({
+      filledQuantity: filledQty,
+      status: matchResult.orderStatus,
+      updatedAt: new Date(),
+    })
+    .where(eq(orders.id, closeOrder.id));
+
+  await pruneReduceOnlyOrders(tx, book, pos.userId, contract);
+
+  return {
+    position: {
+      ...pos,
+      quantity: fullyClosed ? "0" : remainingQty,
+      status: fullyClosed ? "closed" : "open",
+      takeProfitPrice: fullyClosed ? null : pos.takeProfitPrice,
+      stopLossPrice: fullyClosed ? null : pos.stopLossPrice,
+    },
+    pnl,
+    filledQuantity: filledQty,
+  };
+}
+
+/**
+ * Move funds between the collateral wallet and an isolated position's
+ * margin: a positive amount tops the position up, a negative one takes
+ * margin out. What stays behind, less any unrealized loss, must still cover
+ * the tiered initial margin at the mark price. The liquidation price follows the
+ * new margin. The position row must already be locked by the caller.
+ */
+export async function adjustPositionMargin(
+  tx: Tx,
+  pos: Position,
+  amount: string,
+  markPrice: string
+): Promise<Position> {
+  if (dec.isZero(amount)) {
+    throw new Error("Amount must be positive");
+  }
+  const pairConfig = PAIRS[pos.contract as FuturesPair];
+  const margin = dec.add(pos.margin, amount);
+
+  const wallet = await lockCollateralWallet(tx, pos);
+
+  if (dec.isPositive(amount)) {
+    if (dec.lt(wallet.availableBalance, amount)) {
+      throw new Error(
+        `Insufficient ${pos.collateralCurrency} balance. Available: ${wallet.availableBalance}, required: ${amount}`
+      );
+    }
+  } else {
+    const unrealizedPnl = calculateUnrealizedPnl(
+      pos.side as "long" | "short",
+      pos.entryPrice,
+      markPrice,
+      pos.quantity,
+      pairConfig.contractSize
+    );
+    const initialMargin = calculateTierInitialMargin(
+      pos.quantity,
+      pairConfig.contractSize,
+      markPrice,
+      pairConfig.riskTiers
+    );
+    const maxRemovable = dec.max(
+      0,
+      dec.sub(dec.add(pos.margin, dec.min(unrealizedPnl, 0)), initialMargin)
+    );
+    if (dec.gt(dec.neg(amount), maxRemovable)) {
+      throw new Error(
+        `Removing that much would leave the position below initial margin — at most $${dec.toNumber(maxRemovable).toFixed(2)} can be removed`
+      );
+    }
+  }
+
+  const liquidationPrice = calculateLiquidationPriceFromMargin(
+    pos.entryPrice,
+    pos.side as "long" | "short",
+    pos.quantity,
+    pairConfig.contractSize,
+    margin,
+    pairConfig.riskTiers
+  );
+
+  const [updated] = await tx
+    .update(positions)
+    .set({ margin, liquidationPrice, updatedAt: new Date() })
+    .where(eq(positions.id, pos.id))
+    .returning();
+
+  const isTopUp = dec.isPositive(amount);
+  await transferPositionMargin(
+    tx,
+    pos,
+    wallet.id,
+    amount,
+    isTopUp ? "margin_add" : "margin_remove",
+    `${isTopUp ? "Margin added to" : "Margin removed from"} ${pos.contract} ${pos.side} — now $${dec.toNumber(margin).toFixed(2)}`
+  );
+
+  return updated;
+}
+
+/**
+ * Re-lever an isolated position: its margin becomes the initial margin at
+ * the new leverage on the entry price, and the difference is locked from or
+ * released to the collateral wallet. Rejected if the new margin would not
+ * cover maintenance margin at the mark. The position row must already be
+ * locked by the caller.
+ */
+export async function changePositionLeverage(
+  tx: Tx,
+  pos: Position,
+  leverage: number,
+  markPrice: string
+): Promise<Position> {
+  const pairConfig = PAIRS[pos.contract as FuturesPair];
+  const { maxLeverage } = getRiskTier(
+    pairConfig.riskTiers,
+    calculateNotional(pos.quantity, pairConfig.contractSize, pos.entryPrice, "ceil")
+  );
+  if (leverage < 1 || leverage > maxLeverage) {
+    throw new Error(`Leverage must be between 1x and ${maxLeverage}x at this position size`);
+  }
+
+  const margin = calculateInitialMargin(
+    pos.quantity,
+    pairConfig.contractSize,
+    pos.entryPrice,
+    leverage
+  );
+  const unrealizedPnl = calculateUnrealizedPnl(
+    pos.side as "long" | "short",
+    pos.entryPrice,
+    markPrice,
+    pos.quantity,
+    pairConfig.contractSize
+  );
+  const maintenanceMargin = calculateMaintenanceMargin(
+    pos.quantity,
+    pairConfig.contractSize,
+    markPrice,
+    pairConfig.riskTiers
+  );
+  if (isLiquidatable(margin, unrealizedPnl, maintenanceMargin)) {
+    throw new Error(`At ${leverage}x the position would be liquidated immediately`);
+  }
+
+  const change = dec.sub(margin, pos.margin);
+  const wallet = await lockCollateralWallet(tx, pos);
+  if (dec.isPositive(change) && dec.lt(wallet.availableBalance, change)) {
+    throw new Error(
+      `Insufficient ${pos.collateralCurrency} balance. Available: ${wallet.availableBalance}, required: ${change}`
+    );
+  }
+
+  const liquidationPrice = calculateLiquidationPriceFromMargin(
+    pos.entryPrice,
+    pos.side as "long" | "short",
+    pos.quantity,
+    pairConfig.contractSize,
+    margin,
+    pairConfig.riskTiers
+  );
+
+  const [updated] = await tx
+    .update(positions)
+    .set({
+      leverage: leverage.toFixed(2),
+      margin,
+      liquidationPrice,
+      updatedAt: new Date(),
+    })
+    .where(eq(positions.id, pos.id))
+    .returning();
+
+  if (!dec.isZero(change)) {
+    await transferPositionMargin(
+      tx,
+      pos,
+      wallet.id,
+      change,
+      dec.isPositive(change) ? "margin_lock" : "margin_release",
+      `Leverage on ${pos.contract} ${pos.side} changed to ${leverage}x`
+    );
+  }
+
+  return updated;
+}
+
+/**
+ * Lock an open position, taking its collateral wallet first. Orders lock
+ * the wallet before the position they settle into, so everything else that
+ * touches both must too or the two can deadlock. Pass the owner to only
+ * find the user's own position.
+ */
+export async function lockOpenPosition(
+  tx: Tx,
+  positionId: string,
+  userId?: string
+): Promise<Position | undefined> {
+  const owned = and(
+    eq(positions.id, positionId),
+    userId ? eq(positions.userId, userId) : undefined
+  );
+  const [found] = await tx
+    .select({ userId: positions.userId, collateralCurrency: positions.collateralCurrency })
+    .from(positions)
+    .where(owned);
+  if (!found) return undefined;
+
+  await tx
+    .select({ id: wallets.id })
+    .from(wallets)
+    .where(
+      and(eq(wallets.userId, found.userId), eq(wallets.currency, found.collateralCurrency))
+    )
+    .for("update");
+  const [pos] = await tx
+    .select()
+    .from(positions)
+    .where(and(owned, eq(positions.status, "open")))
+    .for("update");
+  return pos;
+}
+
+async function lockCollateralWallet(tx: Tx, pos: Position) {
+  const [wallet] = await tx
+    .select()
+    .from(wallets)
+    .where(
+      and(
+        eq(wallets.userId, pos.userId),
+        eq(wallets.currency, pos.collateralCurrency)
+      )
+    )
+    .for("update");
+
+  if (!wallet) {
+    throw new Error(`${pos.collateralCurrency} wallet not found`);
+  }
+  return wallet;
+}
+
+/** Move `amount` from the wallet into the position's margin (negative moves it back) and log it. */
+async function transferPositionMargin(
+  tx: Tx,
+  pos: Position,
+  walletId: string,
+  amount: string,
+  type: string,
+  description: string
+): Promise<void> {
+  const walletChange = dec.neg(amount);
+  const [updatedWallet] = await tx
+    .update(wallets)
+    .set({
+      balance: sql`${wallets.balance} + ${walletChange}::decimal`,
+      availableBalance: sql`${wallets.availableBalance} + ${walletChange}::decimal`,
+      updatedAt: new Date(),
+    })
+    .where(eq(wallets.id, walletId))
+    .returning({ balance: wallets.balance });
+
+  await tx.insert(transactions).values({
+    userId: pos.userId,
+    walletId,
+    type,
+    currency: pos.collateralCurrency,
+    amount: walletChange,
+    balanceAfter: updatedWallet.balance,
+    referenceId: pos.id,
+    referenceType: "position",
+    description,
+  });
+}
+
+/**
+ * Check take-profit / stop-loss levels against the mark price.
+ * Returns which bracket (if any) the mark price has reached.
+ */
+export function getTriggeredBracket(
+  pos: Pick<Position, "side" | "takeProfitPrice" | "stopLossPrice">,
+  markPrice: string
+): "take_profit" | "stop_loss" | null {
+  const tp = pos.takeProfitPrice;
+  const sl = pos.stopLossPrice;
+
+  if (pos.side === "long") {
+    if (sl && dec.lte(markPrice, sl)) return "stop_loss";
+    if (tp && dec.gte(markPrice, tp)) return "take_profit";
+  } else {
+    if (sl && dec.gte(markPrice, sl)) return "stop_loss";
+    if (tp && dec.lte(markPrice, tp)) return "take_profit";
+  }
+  return null;
+}
+
+/**
+ * Validate take-profit / stop-loss levels against a reference price.
+ * Longs take profit above and stop out below; shorts the reverse.
+ * Returns an error message, or null if the levels are valid.
+ */
+export function validateBrackets(
+  side: "long" | "short",
+  referencePrice: string,
+  takeProfitPrice?: string | null,
+  stopLossPrice?: string | null
+): string | null {
+  for (const [label, value] of [
+    ["Take-profit", takeProfitPrice],
+    ["Stop-loss", stopLossPrice],
+  ] as const) {
+    if (value === null || value === undefined) continue;
+    const level = Number(value);
+    if (isNaN(level) || level <= 0) {
+      return `${label} price must be positive`;
+    }
+  }
+
+  const ref = dec.toNumber(referencePrice).toFixed(2);
+  if (takeProfitPrice) {
+    const tpCmp = dec.cmp(takeProfitPrice, referencePrice);
+    if (side === "long" ? tpCmp <= 0 : tpCmp >= 0) {
+      return `Take-profit price must be ${side === "long" ? "above" : "below"} $${ref}`;
+    }
+  }
+  if (stopLossPrice) {
+    const slCmp = dec.cmp(stopLossPrice, referencePrice);
+    if (side === "long" ? slCmp >= 0 : slCmp <= 0) {
+      return `Stop-loss price must be ${side === "long" ? "below" : "above"} $${ref}`;
+    }
+  }
+  return null;
+}
@@ -1,13 +1,16 @@
 import { db } from "@/lib/db";
 import { orders } from "@/lib/db/schema";
 import { eq, and, sql, asc, desc } from "drizzle-orm";
+import * as dec from "@/lib/trading/decimal";
 import {
   FALLBACK_PRICES,
   MARK_PRICE_INDEX_WEIGHT,
   MARK_PRICE_BOOK_WEIGHT,
 
   FUNDING_RATE_CLAMP,
+  PAIRS,
 } from "@/lib/trading/constants";
+import type { FuturesPair, PairKey } from "@/lib/trading/constants";
 import type { PriceData, MarkPriceData } from "@/lib/trading/types";
 
 // In-memory cache (resets on server restart — fine for academic use)
@@ -64,75 +67,66 @@ export async function getIndexPrices(): Promise<PriceData> {
 export async function getOrderBookMidPrice(
   pair: string
 ): Promise<string | null> {
-  // Best bid: highest buy price
-  const [bestBid] = await db
-    .select({ price: orders.price })
-    .from(orders)
-    .where(
-      and(
-        eq(orders.pair, pair),
-        eq(orders.side, "buy"),
-        sql`${orders.status} IN ('open', 'partial')`,
-        sql`${orders.price} IS NOT NULL`
+  const bestPrice = async (side: "buy" | "sell") => {
+    const [best] = await db
+      .select({ price: orders.price })
+      .from(orders)
+      .where(
+        and(
+          eq(orders.pair, pair),
+          eq(orders.side, side),
+          sql`${orders.status} IN ('open', 'partial')`,
+          sql`${orders.price} IS NOT NULL`
+        )
       )
-    )
-    .orderBy(desc(orders.price))
-    .limit(1);
-
-  // Best ask: lowest sell price
-  const [bestAsk] = await db
-    .select({ price: orders.price })
-    .from(orders)
-    .where(
-      and(
-        eq(orders.pair, pair),
-        eq(orders.side, "sell"),
-        sql`${orders.status} IN ('open', 'partial')`,
-        sql`${orders.price} IS NOT NULL`
-      )
-    )
-    .orderBy(asc(orders.price))
-    .limit(1);
+      // Best bid is the highest buy, best ask the lowest sell
+      .orderBy(side === "buy" ? desc(orders.price) : asc(orders.price))
+      .limit(1);
+    return best?.price ?? null;
+  };
+  const [bestBid, bestAsk] = await Promise.all([bestPrice("buy"), bestPrice("sell")]);
 
-  if (!bestBid?.price || !bestAsk?.price) return null;
+  if (!bestBid || !bestAsk) return null;
 
-  const mid = (parseFloat(bestBid.price) + parseFloat(bestAsk.price)) / 2;
-  return mid.toFixed(8);
+  return dec.div(dec.add(bestBid, bestAsk), 2);
 }
 
 export async function getMarkPrice(
   pair: "XAU-PERP" | "XAG-PERP"
 ): Promise<MarkPriceData> {
   const prices = await getIndexPrices();
-  const indexPrice = pair === "XAU-PERP" ? prices.gold : prices.silver;
+  const indexPrice = dec.normalize(pair === "XAU-PERP" ? prices.gold : prices.silver);
   const orderBookMid = await getOrderBookMidPrice(pair);
 
-  let markPrice: number;
-  if (orderBookMid) {
-    markPrice =
-      indexPrice * MARK_PRICE_INDEX_WEIGHT +
-      parseFloat(orderBookMid) * MARK_PRICE_BOOK_WEIGHT;
-  } else {
-    markPrice = indexPrice;
-  }
+  const markPrice = orderBookMid
+    ? dec.add(
+        dec.mul(indexPrice, MARK_PRICE_INDEX_WEIGHT),
+        dec.mul(orderBookMid, MARK_PRICE_BOOK_WEIGHT)
+      )
+    : indexPrice;
 
   // Calculate current funding rate
-  const futuresMid = orderBookMid ? parseFloat(orderBookMid) : null;
-  let fundingRate = 0;
-  if (futuresMid !== null && indexPrice > 0) {
-    fundingRate = (futuresMid - indexPrice) / indexPrice;
-    fundingRate = Math.max(-FUNDING_RATE_CLAMP, Math.min(FUNDING_RATE_CLAMP, fundingRate));
+  let fundingRate = dec.normalize(0);
+  if (orderBookMid && dec.isPositive(indexPrice)) {
+    fundingRate = dec.div(dec.sub(orderBookMid, indexPrice), indexPrice);
+    fundingRate = dec.max(-FUNDING_RATE_CLAMP, dec.min(FUNDING_RATE_CLAMP, fundingRate));
   }
 
   return {
-    indexPrice: indexPrice.toFixed(8),
-    markPrice: markPrice.toFixed(8),
+    indexPrice,
+    markPrice,
     orderBookMid,
-    fundingRate: fundingRate.toFixed(8),
+    fundingRate,
     nextFundingAt: getNextFundingTime().toISOString(),
   };
 }
 
+/** Price bands are centred on the mark for futures and on the 1.0000 peg for spot. */
+export async function getReferencePrice(pair: PairKey): Promise<string> {
+  if (PAIRS[pair].type === "spot") return dec.normalize(1);
+  return (await getMarkPrice(pair as FuturesPair)).markPrice;
+}
+
 export function getNextFundingTime(): Date {
   const now = new Date();
   const utcHours = now.getUTCHours();
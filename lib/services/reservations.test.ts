@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { calculateReservation, reservationShare } from "./reservations";
+
+const spot = {
+  pair: "USDT-USDC",
+  price: "0.9999",
+  leverage: null,
+  collateralCurrency: null,
+  reduceOnly: false,
+};
+
+const futures = {
+  pair: "XAU-PERP",
+  side: "buy",
+  price: "2650",
+  leverage: "10",
+  collateralCurrency: "USDC",
+  reduceOnly: false,
+};
+
+describe("calculateReservation", () => {
+  it("holds the USDC a spot buy will pay", () => {
+    expect(calculateReservation({ ...spot, side: "buy" }, "10")).toEqual({
+      currency: "USDC",
+      amount: "9.99900000",
+    });
+  });
+
+  it("holds the USDT a spot sell will deliver, price or not", () => {
+    expect(calculateReservation({ ...spot, side: "sell", price: null }, "10.5")).toEqual({
+      currency: "USDT",
+      amount: "10.50000000",
+    });
+  });
+
+  it("holds initial margin plus the taker fee on futures", () => {
+    // 10 × 0.001 oz × $2650 = $26.50 notional → $2.65 at 10x + $0.01325 fee
+    expect(calculateReservation(futures, "10")).toEqual({
+      currency: "USDC",
+      amount: "2.66325000",
+    });
+    expect(
+      calculateReservation({ ...futures, leverage: null, collateralCurrency: null }, "10")
+    ).toEqual({ currency: "USDT", amount: "26.51325000" });
+  });
+
+  it("prices market orders at the worst price passed in", () => {
+    expect(calculateReservation({ ...futures, price: null }, "10", "2700")).toEqual({
+      currency: "USDC",
+      amount: "2.71350000",
+    });
+    expect(calculateReservation({ ...futures, price: null }, "10")).toBeNull();
+    expect(calculateReservation({ ...spot, side: "buy", price: null }, "10")).toBeNull();
+  });
+
+  it("reserves nothing for reduce-only orders or an empty remainder", () => {
+    expect(calculateReservation({ ...futures, reduceOnly: true }, "10")).toBeNull();
+    expect(calculateReservation(futures, "0")).toBeNull();
+  });
+});
+
+describe("reservationShare", () => {
+  const order = { quantity: "10", filledQuantity: "4", reservedAmount: "6.00000001" };
+
+  it("releases pro-rata, rounding down", () => {
+    expect(reservationShare(order, "3")).toBe("3.00000000");
+  });
+
+  it("releases everything left when the remainder fills", () => {
+    expect(reservationShare(order, "6")).toBe("6.00000001");
+    expect(reservationShare(order, "7")).toBe("6.00000001");
+  });
+});
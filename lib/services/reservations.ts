@@ -0,0 +1,135 @@
+import { eq, and, sql } from "drizzle-orm";
+import { wallets } from "@/lib/db/schema";
+import type { Tx } from "@/lib/db";
+import { PAIRS } from "@/lib/trading/constants";
+import type { PairKey } from "@/lib/trading/constants";
+import type { Order } from "@/lib/trading/types";
+import * as dec from "@/lib/trading/decimal";
+import { calculateFee, calculateQuoteAmount } from "@/lib/trading/decimal";
+import { calculateInitialMargin, calculateNotional } from "./margin";
+
+/**
+ * Order reservations: the funds an order holds back from availableBalance
+ * while it is unfilled. The amount and currency are recorded on the order at
+ * placement, released pro-rata as it fills (settlement then debits the real
+ * cost) and released in full when it is cancelled or expires.
+ */
+
+export interface Reservation {
+  currency: string;
+  amount: string;
+}
+
+/**
+ * What an order must reserve for the given unfilled quantity, or null if it
+ * reserves nothing (reduce-only orders, and orders without a price).
+ * Market orders pass the worst price their sweep can reach.
+ */
+export function calculateReservation(
+  order: Pick<
+    Order,
+    "pair" | "side" | "price" | "leverage" | "collateralCurrency" | "reduceOnly"
+  >,
+  quantity: string,
+  price: string | null = order.price
+): Reservation | null {
+  if (order.reduceOnly || !dec.isPositive(quantity)) return null;
+  const pairConfig = PAIRS[order.pair as PairKey];
+
+  if (pairConfig.type === "spot") {
+    // Buys hold the USDC they will pay, sells the USDT they will deliver
+    if (order.side === "sell") {
+      return { currency: "USDT", amount: dec.normalize(quantity) };
+    }
+    if (!price) return null;
+    return { currency: "USDC", amount: calculateQuoteAmount(quantity, price) };
+  }
+
+  // Futures: initial margin at the order's own leverage plus the taker fee
+  if (!price) return null;
+  const futuresConfig = pairConfig as typeof PAIRS["XAU-PERP"];
+  const margin = calculateInitialMargin(
+    quantity,
+    futuresConfig.contractSize,
+    price,
+    order.leverage ?? "1"
+  );
+  const fee = calculateFee(
+    calculateNotional(quantity, futuresConfig.contractSize, price),
+    futuresConfig.takerFeeRate
+  );
+  return {
+    currency: order.collateralCurrency ?? "USDT",
+    amount: dec.add(margin, fee),
+  };
+}
+
+/**
+ * Hold back funds from the user's available balance.
+ * Throws if the available balance does not cover the amount.
+ */
+export async function reserveFunds(
+  tx: Tx,
+  userId: string,
+  reservation: Reservation
+): Promise<void> {
+  const [wallet] = await tx
+    .select()
+    .from(wallets)
+    .where(
+      and(eq(wallets.userId, userId), eq(wallets.currency, reservation.currency))
+    )
+    .for("update");
+
+  if (!wallet || dec.lt(wallet.availableBalance, reservation.amount)) {
+    throw new Error(
+      `Insufficient ${reservation.currency} balance. Required: $${dec.toNumber(reservation.amount).toFixed(2)}, Available: $${dec.toNumber(wallet?.availableBalance ?? "0").toFixed(2)}`
+    );
+  }
+
+  await tx
+    .update(wallets)
+    .set({
+      availableBalance: sql`${wallets.availableBalance} - ${reservation.amount}::decimal`,
+      updatedAt: new Date(),
+    })
+    .where(eq(wallets.id, wallet.id));
+}
+
+/**
+ * Return part of an order's reservation to the user's available balance.
+ * The caller writes the order's new reservedAmount.
+ */
+export async function releaseFunds(
+  tx: Tx,
+  order: Pick<Order, "userId" | "reservedCurrency">,
+  amount: string
+): Promise<void> {
+  if (!order.reservedCurrency || !dec.isPositive(amount)) return;
+
+  await tx
+    .update(wallets)
+    .set({
+      availableBalance: sql`${wallets.availableBalance} + ${amount}::decimal`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(wallets.userId, order.userId),
+        eq(wallets.currency, order.reservedCurrency)
+      )
+    );
+}
+
+/**
+ * The part of an order's remaining reservation that covers `quantity` of its
+ * unfilled quantity. Filling the whole remainder releases everything left.
+ */
+export function reservationShare(
+  order: Pick<Order, "quantity" | "filledQuantity" | "reservedAmount">,
+  quantity: string
+): string {
+  const unfilled = dec.sub(order.quantity, order.filledQuantity);
+  if (dec.gte(quantity, unfilled)) return dec.normalize(order.reservedAmount);
+  return dec.mulDiv(order.reservedAmount, quantity, unfilled, "floor");
+}
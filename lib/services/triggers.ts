@@ -0,0 +1,195 @@
+import { db } from "@/lib/db";
+import { orders, positions } from "@/lib/db/schema";
+import { eq, and, or, sql, asc } from "drizzle-orm";
+import type { FuturesPair } from "@/lib/trading/constants";
+import * as dec from "@/lib/trading/decimal";
+import { OrderRuleError } from "@/lib/trading/rules";
+import { getMarkPrice } from "./prices";
+import { calculateTrailingTrigger, cancelOrder, executeOrder } from "./orders";
+import { closePosition, getTriggeredBracket, lockOpenPosition } from "./positions";
+import { withOrderBook } from "./orderbook";
+
+/**
+ * Move pending trailing stops after the mark price. The peak is the highest
+ * mark seen since placement for a sell, the lowest for a buy; it only ever
+ * improves, and the trigger follows it. Both live on the order row, so the
+ * trail survives restarts.
+ */
+async function trailStopOrders(contract: FuturesPair, markPrice: string): Promise<void> {
+  const trailing = await db
+    .select()
+    .from(orders)
+    .where(
+      and(
+        eq(orders.pair, contract),
+        eq(orders.type, "trailing_stop"),
+        eq(orders.status, "pending")
+      )
+    );
+
+  for (const order of trailing) {
+    const side = order.side as "buy" | "sell";
+    const peak =
+      side === "sell"
+        ? dec.max(order.trailingPeak ?? markPrice, markPrice)
+        : dec.min(order.trailingPeak ?? markPrice, markPrice);
+    if (order.trailingPeak && dec.eq(peak, order.trailingPeak)) continue;
+
+    await db
+      .update(orders)
+      .set({
+        trailingPeak: peak,
+        triggerPrice: calculateTrailingTrigger(contract, side, peak, order),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(orders.id, order.id), eq(orders.status, "pending")));
+  }
+}
+
+/**
+ * Activate pending stop orders whose trigger has been crossed by the mark price.
+ * Buy stops fire when mark >= trigger, sell stops when mark <= trigger.
+ * Trailing stops first move their trigger after the mark.
+ * Called by the /api/trading/triggers endpoint (cron/manual).
+ */
+export async function processStopOrders(
+  contract: FuturesPair
+): Promise<{ triggeredCount: number; markPrice: string }> {
+  const markData = await getMarkPrice(contract);
+  const markPrice = markData.markPrice;
+
+  await trailStopOrders(contract, markPrice);
+
+  const crossed = await db
+    .select({ id: orders.id })
+    .from(orders)
+    .where(
+      and(
+        eq(orders.pair, contract),
+        eq(orders.status, "pending"),
+        or(
+          and(
+            eq(orders.side, "buy"),
+            sql`${orders.triggerPrice} <= ${markPrice}::decimal`
+          ),
+          and(
+            eq(orders.side, "sell"),
+            sql`${orders.triggerPrice} >= ${markPrice}::decimal`
+          )
+        )
+      )
+    )
+    .orderBy(asc(orders.createdAt));
+
+  let triggeredCount = 0;
+  for (const { id } of crossed) {
+    try {
+      const triggered = await withOrderBook(contract, async (book, tx) => {
+        const [order] = await tx
+          .update(orders)
+          .set({ status: "open", triggeredAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(orders.id, id), eq(orders.status, "pending")))
+          .returning();
+
+        // Cancelled or triggered by a concurrent sweep
+        if (!order) return false;
+
+        await executeOrder(tx, book, order);
+        return true;
+      });
+      if (triggered) triggeredCount++;
+    } catch (error) {
+      if (isPermanentFailure(error)) {
+        await cancelFailedStop(contract, id, (error as Error).message);
+      } else {
+        // Leave the order pending so the next sweep can retry it
+        console.error(`Failed to trigger stop order ${id}:`, error);
+      }
+    }
+  }
+
+  return { triggeredCount, markPrice };
+}
+
+/**
+ * Whether a triggered stop failed in a way the next sweep would repeat:
+ * too little balance to reserve, an order rule, or the market's status.
+ */
+function isPermanentFailure(error: unknown): boolean {
+  if (error instanceof OrderRuleError) return true;
+  const message = error instanceof Error ? error.message : "";
+  return message.includes("Insufficient") || message.includes("market is");
+}
+
+/** Cancel a stop that cannot execute, releasing its reservation. */
+async function cancelFailedStop(
+  contract: FuturesPair,
+  id: string,
+  reason: string
+): Promise<void> {
+  try {
+    await withOrderBook(contract, async (book, tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, id), eq(orders.status, "pending")))
+        .for("update");
+      if (order) await cancelOrder(tx, book, order, `Stop could not execute: ${reason}`);
+    });
+  } catch (error) {
+    console.error(`Failed to cancel stop order ${id}:`, error);
+  }
+}
+
+/**
+ * Close open positions whose take-profit or stop-loss level has been reached
+ * by the mark price. Closing the position clears both levels, so the sibling
+ * bracket is cancelled along with it.
+ */
+export async function processBrackets(
+  contract: FuturesPair
+): Promise<{ closedCount: number; markPrice: string }> {
+  const markData = await getMarkPrice(contract);
+  const markPrice = markData.markPrice;
+
+  const bracketed = await db
+    .select()
+    .from(positions)
+    .where(
+      and(
+        eq(positions.contract, contract),
+        eq(positions.status, "open"),
+        sql`(${positions.takeProfitPrice} IS NOT NULL OR ${positions.stopLossPrice} IS NOT NULL)`
+      )
+    );
+
+  let closedCount = 0;
+  for (const candidate of bracketed) {
+    if (!getTriggeredBracket(candidate, markPrice)) continue;
+
+    try {
+      const closed = await withOrderBook(contract, async (book, tx) => {
+        const pos = await lockOpenPosition(tx, candidate.id);
+
+        // Re-check against the locked row — the user may have edited the levels
+        const bracket = pos ? getTriggeredBracket(pos, markPrice) : null;
+        if (!pos || !bracket) return false;
+
+        await closePosition(
+          tx,
+          book,
+          pos,
+          undefined,
+          bracket === "take_profit" ? "Take-profit" : "Stop-loss"
+        );
+        return true;
+      });
+      if (closed) closedCount++;
+    } catch (error) {
+      // Usually no liquidity — keep the brackets so the next sweep retries
+      console.error(`Failed to close bracketed position ${candidate.id}:`, error);
+    }
+  }
+
+  return { closedCount, markPrice };
+}
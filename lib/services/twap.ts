@@ -0,0 +1,393 @@
+import { z } from "zod";
+import { eq, and, lte, inArray, asc } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { twapOrders, users } from "@/lib/db/schema";
+import { getSameSideQuantity } from "@/lib/db/queries/trading";
+import {
+  MAX_LEVERAGE,
+  PAIRS,
+  TWAP_MAX_SLICES,
+  TWAP_MIN_INTERVAL_SECONDS,
+} from "@/lib/trading/constants";
+import type { FuturesPair, PairKey } from "@/lib/trading/constants";
+import type { Fill, Order, TwapOrder, TwapStatus } from "@/lib/trading/types";
+import * as dec from "@/lib/trading/decimal";
+import { roundQuantity } from "@/lib/trading/decimal";
+import { checkOrderRules } from "@/lib/trading/rules";
+import type { RuleCode } from "@/lib/trading/rules";
+import { checkMarketAllows, getMarketState } from "./markets";
+import { withOrderBook } from "./orderbook";
+import { placeOrder, prepareOrderRequest } from "./placement";
+import type { OrderRequestError } from "./placement";
+import { getMarkPrice, getOrderBookMidPrice, getReferencePrice } from "./prices";
+
+/**
+ * TWAP orders. A parent order is worked as equal slices spread over a
+ * duration; each slice is an IOC child order (market, or limit at the
+ * parent's price) linked back through orders.parentId. Quantity a slice
+ * leaves unfilled rolls into the slices after it; what the last slice
+ * leaves ends the parent as partially filled. The slice sweep
+ * (POST /api/trading/twap/slices, cron/manual) sends whatever is due.
+ */
+
+const positiveDecimal = (message: string) =>
+  z.string().refine((val) => {
+    const num = Number(val);
+    return val.trim() !== "" && !isNaN(num) && num > 0;
+  }, message);
+
+export const twapRequestSchema = z.object({
+  pair: z.enum(["USDT-USDC", "XAU-PERP", "XAG-PERP"]),
+  side: z.enum(["buy", "sell"]),
+  childType: z.enum(["limit", "market"]).default("market"),
+  price: positiveDecimal("Price must be positive").optional(), // limit slices only
+  quantity: positiveDecimal("Quantity must be positive"),
+  durationMinutes: z.number().int().min(1).max(24 * 60),
+  sliceCount: z.number().int().min(2).max(TWAP_MAX_SLICES).optional(), // one a minute by default
+  collateralCurrency: z.enum(["USDT", "USDC"]).optional(),
+  leverage: z.number().min(1).max(MAX_LEVERAGE).optional(),
+  reduceOnly: z.boolean().default(false), // futures only
+});
+
+export type TwapRequest = z.infer<typeof twapRequestSchema>;
+
+export interface TwapProgress {
+  filledQuantity: string;
+  remainingQuantity: string;
+  averagePrice: string | null; // null until something fills
+  slippage: string | null; // average against arrival price — positive is worse for the trader
+  slicesSent: number;
+  sliceCount: number;
+}
+
+export interface TwapSlice {
+  twap: TwapOrder;
+  order: Order;
+  fills: Fill[];
+}
+
+export function getTwapProgress(twap: TwapOrder): TwapProgress {
+  const averagePrice = dec.isPositive(twap.filledQuantity)
+    ? dec.div(twap.filledValue, twap.filledQuantity)
+    : null;
+  const slippage = averagePrice
+    ? dec.div(
+        twap.side === "buy"
+          ? dec.sub(averagePrice, twap.arrivalPrice)
+          : dec.sub(twap.arrivalPrice, averagePrice),
+        twap.arrivalPrice
+      )
+    : null;
+  return {
+    filledQuantity: twap.filledQuantity,
+    remainingQuantity: dec.sub(twap.quantity, twap.filledQuantity),
+    averagePrice,
+    slippage,
+    slicesSent: twap.slicesSent,
+    sliceCount: twap.sliceCount,
+  };
+}
+
+/** The mark on futures; the book mid on spot, or the peg when one side is empty. */
+async function getArrivalPrice(pair: PairKey): Promise<string> {
+  if (PAIRS[pair].type === "futures") {
+    return (await getMarkPrice(pair as FuturesPair)).markPrice;
+  }
+  return (await getOrderBookMidPrice(pair)) ?? getReferencePrice(pair);
+}
+
+// Rules the whole TWAP must pass, not just each slice
+const TWAP_TOTAL_RULES: RuleCode[] = ["QUANTITY_LOT", "LEVERAGE_ABOVE_TIER", "POSITION_ABOVE_MAX"];
+
+/**
+ * Validate a TWAP request and schedule it, with the first slice due now.
+ * Each slice must pass the pair's trading rules on its own. Returns the
+ * error, or the new parent order.
+ */
+export async function createTwapOrder(
+  userId: string,
+  input: TwapRequest
+): Promise<OrderRequestError | { twap: TwapOrder }> {
+  const pairConfig = PAIRS[input.pair];
+  const sliceCount = input.sliceCount ?? Math.max(2, Math.min(input.durationMinutes, TWAP_MAX_SLICES));
+  const intervalSeconds = Math.floor((input.durationMinutes * 60) / sliceCount);
+
+  if (intervalSeconds < TWAP_MIN_INTERVAL_SECONDS) {
+    return {
+      error: `Slices must be at least ${TWAP_MIN_INTERVAL_SECONDS} seconds apart — use fewer slices or a longer duration`,
+    };
+  }
+  if (input.childType === "limit" && !input.price) {
+    return { error: "Limit TWAP orders require a price" };
+  }
+  if (input.childType === "market" && input.price) {
+    return { error: "Market TWAP orders cannot specify a price" };
+  }
+  if (pairConfig.type === "futures") {
+    if (!input.collateralCurrency) {
+      return { error: "Futures orders require collateralCurrency" };
+    }
+    if (!input.leverage) {
+      return { error: "Futures orders require leverage" };
+    }
+  } else if (input.reduceOnly) {
+    return { error: "Reduce-only is only available on futures" };
+  }
+
+  // The total must sit on the lot and within the risk limits; everything
+  // else is a per-slice rule
+  const referencePrice = await getReferencePrice(input.pair);
+  const sliceQuantity = roundQuantity(input.pair, dec.div(input.quantity, sliceCount));
+  const [totalViolation] = checkOrderRules(
+    input.pair,
+    {
+      price: input.price ?? null,
+      quantity: input.quantity,
+      leverage: input.reduceOnly ? null : input.leverage,
+      positionQuantity:
+        pairConfig.type === "futures" && !input.reduceOnly
+          ? await getSameSideQuantity(userId, input.pair, input.side)
+          : null,
+    },
+    referencePrice
+  ).filter((violation) => TWAP_TOTAL_RULES.includes(violation.code));
+  if (totalViolation) {
+    return { error: totalViolation.message, code: totalViolation.code, field: totalViolation.field };
+  }
+  const [violation] = checkOrderRules(
+    input.pair,
+    { price: input.price ?? null, quantity: sliceQuantity },
+    referencePrice
+  );
+  if (violation) {
+    return {
+      error: `Each slice would be ${sliceQuantity}: ${violation.message}`,
+      code: violation.code,
+      field: violation.field,
+    };
+  }
+
+  const [twap] = await db
+    .insert(twapOrders)
+    .values({
+      userId,
+      pair: input.pair,
+      side: input.side,
+      childType: input.childType,
+      price: input.price ?? null,
+      quantity: input.quantity,
+      sliceCount,
+      intervalSeconds,
+      arrivalPrice: await getArrivalPrice(input.pair),
+      collateralCurrency: input.collateralCurrency ?? null,
+      leverage: input.leverage?.toFixed(2) ?? null,
+      reduceOnly: input.reduceOnly,
+      nextSliceAt: new Date(),
+    })
+    .returning();
+
+  return { twap };
+}
+
+async function recordSliceError(
+  twapId: string,
+  lastError: string,
+  status?: TwapStatus
+): Promise<void> {
+  await db
+    .update(twapOrders)
+    .set({ lastError, ...(status && { status }), updatedAt: new Date() })
+    .where(and(eq(twapOrders.id, twapId), eq(twapOrders.status, "active")));
+}
+
+/**
+ * Send a TWAP order's next slice if it is due. A market whose status turns
+ * the slice away holds the schedule until it reopens; a slice that is
+ * rejected or fails pauses the parent with the reason, for the owner to
+ * resume. Returns the slice, or null if none was sent.
+ */
+export async function executeTwapSlice(twapId: string): Promise<TwapSlice | null> {
+  const [twap] = await db.select().from(twapOrders).where(eq(twapOrders.id, twapId));
+  if (!twap || twap.status !== "active" || twap.nextSliceAt > new Date()) return null;
+
+  const pair = twap.pair as PairKey;
+  const pairConfig = PAIRS[pair];
+  const childType = twap.childType as "limit" | "market";
+
+  const marketError = checkMarketAllows(await getMarketState(pair), "place", {
+    type: childType,
+    timeInForce: "ioc",
+  });
+  if (marketError) {
+    await recordSliceError(twap.id, marketError);
+    return null;
+  }
+
+  const remaining = dec.sub(twap.quantity, twap.filledQuantity);
+  if (dec.lt(remaining, pairConfig.minQuantity)) {
+    await recordSliceError(
+      twap.id,
+      `${remaining} left unfilled — below the minimum order size`,
+      "partially_filled"
+    );
+    return null;
+  }
+
+  // An even share of what is left, the whole remainder on the last slice
+  const slicesLeft = twap.sliceCount - twap.slicesSent;
+  const evenShare =
+    slicesLeft <= 1 ? remaining : roundQuantity(pair, dec.div(remaining, slicesLeft));
+  const quantity = dec.min(
+    remaining,
+    dec.min(pairConfig.maxQuantity, dec.max(evenShare, pairConfig.minQuantity))
+  );
+
+  const prepared = await prepareOrderRequest(twap.userId, {
+    pair,
+    side: twap.side as "buy" | "sell",
+    type: childType,
+    price: twap.price ?? undefined,
+    quantity,
+    collateralCurrency: (twap.collateralCurrency as "USDT" | "USDC" | null) ?? undefined,
+    leverage: twap.leverage ? Number(twap.leverage) : undefined,
+    timeInForce: "ioc",
+    reduceOnly: twap.reduceOnly,
+  });
+  if ("error" in prepared) {
+    await recordSliceError(twap.id, prepared.error, "paused");
+    return null;
+  }
+
+  const [user] = await db
+    .select({ id: users.id, stpMode: users.stpMode })
+    .from(users)
+    .where(eq(users.id, twap.userId));
+
+  try {
+    return await withOrderBook(pair, async (book, tx) => {
+      // Paused, cancelled or sent by a concurrent sweep since the read above
+      const [locked] = await tx
+        .select()
+        .from(twapOrders)
+        .where(
+          and(
+            eq(twapOrders.id, twap.id),
+            eq(twapOrders.status, "active"),
+            lte(twapOrders.nextSliceAt, new Date())
+          )
+        )
+        .for("update");
+      if (!locked) return null;
+
+      const placed = await placeOrder(tx, book, user, {
+        ...prepared.request,
+        parentId: locked.id,
+      });
+
+      const filledQuantity = dec.add(locked.filledQuantity, placed.order.filledQuantity);
+      const filledValue = dec.add(
+        locked.filledValue,
+        dec.sum(placed.fills.map((fill) => dec.mul(fill.price, fill.quantity)))
+      );
+      const slicesSent = locked.slicesSent + 1;
+      const unfilled = dec.sub(locked.quantity, filledQuantity);
+      const status: TwapStatus = !dec.isPositive(unfilled)
+        ? "completed"
+        : slicesSent >= locked.sliceCount
+          ? "partially_filled"
+          : "active";
+
+      const [updated] = await tx
+        .update(twapOrders)
+        .set({
+          slicesSent,
+          filledQuantity,
+          filledValue,
+          status,
+          nextSliceAt: new Date(Date.now() + locked.intervalSeconds * 1000),
+          lastError:
+            status === "partially_filled" ? `${unfilled} left unfilled by the last slice` : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(twapOrders.id, locked.id))
+        .returning();
+
+      return { twap: updated, order: placed.order, fills: placed.fills };
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Slice failed";
+    await recordSliceError(twap.id, message, "paused");
+    return null;
+  }
+}
+
+/**
+ * Send every TWAP slice that is due, oldest schedule first.
+ * Called by the /api/trading/twap/slices endpoint (cron/manual).
+ */
+export async function processTwapSlices(): Promise<{ slicesSent: number; completedCount: number }> {
+  const due = await db
+    .select({ id: twapOrders.id })
+    .from(twapOrders)
+    .where(and(eq(twapOrders.status, "active"), lte(twapOrders.nextSliceAt, new Date())))
+    .orderBy(asc(twapOrders.nextSliceAt));
+
+  let slicesSent = 0;
+  let completedCount = 0;
+  for (const { id } of due) {
+    const slice = await executeTwapSlice(id);
+    if (!slice) continue;
+    slicesSent++;
+    if (slice.twap.status !== "active") completedCount++;
+  }
+
+  return { slicesSent, completedCount };
+}
+
+const TWAP_TRANSITIONS: Record<
+  "pause" | "resume" | "cancel",
+  { from: TwapStatus[]; to: TwapStatus }
+> = {
+  pause: { from: ["active"], to: "paused" },
+  resume: { from: ["paused"], to: "active" },
+  cancel: { from: ["active", "paused"], to: "cancelled" },
+};
+
+/**
+ * Pause, resume or cancel a TWAP order. Slices are IOC, so nothing rests on
+ * the book to cancel. A resumed order sends its next slice on the next
+ * sweep and spreads the remaining slices at the original interval.
+ */
+export async function controlTwapOrder(
+  userId: string,
+  twapId: string,
+  action: keyof typeof TWAP_TRANSITIONS
+): Promise<TwapOrder> {
+  const { from, to } = TWAP_TRANSITIONS[action];
+
+  const [updated] = await db
+    .update(twapOrders)
+    .set({
+      status: to,
+      ...(action === "resume" && { nextSliceAt: new Date(), lastError: null }),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(twapOrders.id, twapId),
+        eq(twapOrders.userId, userId),
+        inArray(twapOrders.status, from)
+      )
+    )
+    .returning();
+  if (updated) return updated;
+
+  const [existing] = await db
+    .select({ status: twapOrders.status })
+    .from(twapOrders)
+    .where(and(eq(twapOrders.id, twapId), eq(twapOrders.userId, userId)));
+  if (!existing) {
+    throw new Error("TWAP order not found");
+  }
+  throw new Error(`TWAP order is ${existing.status} and cannot ${action === "cancel" ? "be cancelled" : action}`);
+}
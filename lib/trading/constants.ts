@@ -1,3 +1,18 @@
+// Larger positions get less leverage and a higher maintenance margin rate
+const XAU_RISK_TIERS = [
+  { maxNotional: "10000", maxLeverage: 50, maintenanceMarginRate: "0.01" },
+  { maxNotional: "50000", maxLeverage: 20, maintenanceMarginRate: "0.025" },
+  { maxNotional: "200000", maxLeverage: 10, maintenanceMarginRate: "0.05" },
+  { maxNotional: null, maxLeverage: 5, maintenanceMarginRate: "0.1" },
+] as const;
+
+const XAG_RISK_TIERS = [
+  { maxNotional: "5000", maxLeverage: 50, maintenanceMarginRate: "0.01" },
+  { maxNotional: "25000", maxLeverage: 20, maintenanceMarginRate: "0.025" },
+  { maxNotional: "100000", maxLeverage: 10, maintenanceMarginRate: "0.05" },
+  { maxNotional: null, maxLeverage: 5, maintenanceMarginRate: "0.1" },
+] as const;
+
 export const PAIRS = {
   "USDT-USDC": {
     base: "USDT",
@@ -6,7 +21,13 @@ export const PAIRS = {
     makerFeeRate: "0", // 0% — incentivize liquidity provision
     takerFeeRate: "0.0003", // 0.03%
     tickSize: "0.0001",
+    lotSize: "0.001",
     minQuantity: "0.001",
+    maxQuantity: "100000",
+    minNotional: "0.01", // USDC
+    priceBand: "0.05", // ±5% around the 1.0000 peg
+    circuitBreakerMove: "0.02", // halt on a 2% move…
+    circuitBreakerWindowMinutes: 5, // …within 5 minutes
   },
   "XAU-PERP": {
     base: "XAU",
@@ -16,10 +37,16 @@ export const PAIRS = {
     tickSize: "0.01",
     makerFeeRate: "0", // 0% — incentivize liquidity provision
     takerFeeRate: "0.0005", // 0.05%
-    maxLeverage: 50,
-    initialMarginRate: "0.02", // 2%
-    maintenanceMarginRate: "0.01", // 1%
+    maxLeverage: XAU_RISK_TIERS[0].maxLeverage,
+    riskTiers: XAU_RISK_TIERS,
+    maxPositionNotional: "500000", // USD, per account
+    lotSize: "1", // whole contracts
     minQuantity: "1",
+    maxQuantity: "10000",
+    minNotional: "1", // USD
+    priceBand: "0.1", // ±10% around the mark price
+    circuitBreakerMove: "0.05",
+    circuitBreakerWindowMinutes: 5,
   },
   "XAG-PERP": {
     base: "XAG",
@@ -29,10 +56,16 @@ export const PAIRS = {
     tickSize: "0.001",
     makerFeeRate: "0", // 0% — incentivize liquidity provision
     takerFeeRate: "0.0005", // 0.05%
-    maxLeverage: 50,
-    initialMarginRate: "0.02",
-    maintenanceMarginRate: "0.01",
+    maxLeverage: XAG_RISK_TIERS[0].maxLeverage,
+    riskTiers: XAG_RISK_TIERS,
+    maxPositionNotional: "250000",
+    lotSize: "1", // whole contracts
     minQuantity: "1",
+    maxQuantity: "10000",
+    minNotional: "1", // USD
+    priceBand: "0.1", // ±10% around the mark price
+    circuitBreakerMove: "0.05",
+    circuitBreakerWindowMinutes: 5,
   },
 } as const;
 
@@ -40,9 +73,32 @@ export type PairKey = keyof typeof PAIRS;
 export type SpotPair = "USDT-USDC";
 export type FuturesPair = "XAU-PERP" | "XAG-PERP";
 
+// The highest leverage any futures pair allows, for checks that run before the pair's tiers
+export const MAX_LEVERAGE = Math.max(PAIRS["XAU-PERP"].maxLeverage, PAIRS["XAG-PERP"].maxLeverage);
+
 export const FUNDING_INTERVAL_HOURS = 8;
 export const FUNDING_RATE_CLAMP = 0.01; // +/- 1%
 
+// A circuit-breaker halt lasts this long, then a re-opening call auction
+// collects orders for CALL_AUCTION_MINUTES before the book uncrosses
+export const CIRCUIT_BREAKER_HALT_MINUTES = 15;
+export const CALL_AUCTION_MINUTES = 5;
+
+// TWAP orders: at most this many slices, at least this far apart
+export const TWAP_MAX_SLICES = 100;
+export const TWAP_MIN_INTERVAL_SECONDS = 10;
+
+// Staged liquidation closes this share of the position per step
+export const LIQUIDATION_STEP_FRACTION = "0.25";
+
+// ADL rank is shown in this many levels; the top level is deleveraged first
+export const ADL_RANK_LEVELS = 5;
+
+// The exchange's own account: it places liquidation orders, and its
+// collateral wallets hold the insurance fund
+export const SYSTEM_ACCOUNT_UID = "system";
+export const SYSTEM_ACCOUNT_EMAIL = "system@openmandi.internal";
+
 export const MARK_PRICE_INDEX_WEIGHT = 0.7;
 export const MARK_PRICE_BOOK_WEIGHT = 0.3;
 
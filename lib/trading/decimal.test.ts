@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import * as dec from "./decimal";
+
+describe("normalize", () => {
+  it("pads to 8 decimals", () => {
+    expect(dec.normalize("1.5")).toBe("1.50000000");
+    expect(dec.normalize(2)).toBe("2.00000000");
+    expect(dec.normalize("-0.1")).toBe("-0.10000000");
+  });
+
+  it("rounds digits past the 8th by the given mode", () => {
+    expect(dec.normalize("0.123456785")).toBe("0.12345679");
+    expect(dec.normalize("0.123456785", "floor")).toBe("0.12345678");
+    expect(dec.normalize("-0.123456781", "ceil")).toBe("-0.12345678");
+    expect(dec.normalize("-0.123456781", "floor")).toBe("-0.12345679");
+  });
+
+  it("rounds float noise away", () => {
+    expect(dec.normalize(0.1 + 0.2)).toBe("0.30000000");
+  });
+
+  it("rejects anything that is not a decimal", () => {
+    expect(() => dec.normalize("abc")).toThrow("Invalid decimal");
+    expect(() => dec.normalize(".")).toThrow("Invalid decimal");
+    expect(() => dec.normalize(Infinity)).toThrow("Invalid decimal");
+  });
+});
+
+describe("arithmetic", () => {
+  it("adds and subtracts exactly", () => {
+    expect(dec.add("0.1", "0.2")).toBe("0.30000000");
+    expect(dec.sub("1", "1.00000001")).toBe("-0.00000001");
+    expect(dec.sum(["0.1", "0.1", "0.1"])).toBe("0.30000000");
+  });
+
+  it("rounds a product once", () => {
+    expect(dec.mul("0.00000001", "0.5")).toBe("0.00000001");
+    expect(dec.mul("0.00000001", "0.5", "floor")).toBe("0.00000000");
+    expect(dec.product(["0.00000003", "0.5", "0.5"], "ceil")).toBe("0.00000001");
+  });
+
+  it("rounds quotients toward the requested side", () => {
+    expect(dec.div(1, 3)).toBe("0.33333333");
+    expect(dec.div(1, 3, "ceil")).toBe("0.33333334");
+    expect(dec.div(-1, 3, "floor")).toBe("-0.33333334");
+    expect(dec.div(2, 3)).toBe("0.66666667");
+  });
+
+  it("throws on division by zero", () => {
+    expect(() => dec.div(1, 0)).toThrow("Division by zero");
+    expect(() => dec.mod(1, 0)).toThrow("Division by zero");
+  });
+
+  it("takes pro-rata shares with one rounding", () => {
+    expect(dec.mulDiv("100", "1", "3", "floor")).toBe("33.33333333");
+    expect(dec.mulDiv("100", "2", "3", "ceil")).toBe("66.66666667");
+  });
+
+  it("keeps the sign of the dividend in mod", () => {
+    expect(dec.mod("7.5", "2")).toBe("1.50000000");
+    expect(dec.mod("-7.5", "2")).toBe("-1.50000000");
+  });
+});
+
+describe("steps", () => {
+  it("snaps prices to the tick", () => {
+    expect(dec.roundPrice("XAU-PERP", "2650.125")).toBe("2650.13000000");
+    expect(dec.roundPrice("XAU-PERP", "2650.125", "floor")).toBe("2650.12000000");
+    expect(dec.roundPrice("USDT-USDC", "1.00005", "ceil")).toBe("1.00010000");
+  });
+
+  it("only ever rounds quantities down to the lot", () => {
+    expect(dec.roundQuantity("XAU-PERP", "3.99")).toBe("3.00000000");
+    expect(dec.roundQuantity("USDT-USDC", "1.0019")).toBe("1.00100000");
+  });
+
+  it("checks multiples", () => {
+    expect(dec.isMultipleOf("0.03", "0.01")).toBe(true);
+    expect(dec.isMultipleOf("0.035", "0.01")).toBe(false);
+  });
+});
+
+describe("money", () => {
+  it("rounds fees up", () => {
+    expect(dec.calculateFee("100.00000001", "0.0005")).toBe("0.05000001");
+    expect(dec.calculateFee("100", "0")).toBe("0.00000000");
+  });
+
+  it("gives both sides of a spot fill the same quote amount", () => {
+    expect(dec.calculateQuoteAmount("0.333", "1.0001")).toBe("0.33303330");
+  });
+});
+
+describe("comparisons", () => {
+  it("compares across formats", () => {
+    expect(dec.cmp("1", "1.00000000")).toBe(0);
+    expect(dec.lt("-1", "0")).toBe(true);
+    expect(dec.max("2", 3)).toBe("3.00000000");
+    expect(dec.min("2", 3)).toBe("2.00000000");
+    expect(dec.isZero("-0.00000000")).toBe(true);
+    expect(dec.isPositive("0.00000001")).toBe(true);
+    expect(dec.isNegative("0")).toBe(false);
+  });
+});
@@ -0,0 +1,214 @@
+import { PAIRS } from "./constants";
+import type { PairKey } from "./constants";
+
+/**
+ * Fixed-point decimal arithmetic for the trading core.
+ *
+ * Values travel as strings, like the decimal(18,8) columns they come from,
+ * and are computed as integers scaled by 10^8. Sums are exact; products and
+ * quotients are computed exactly and rounded once, with an explicit mode.
+ * Results are always 8-decimal strings, ready to be written back to the DB.
+ */
+
+export type Numeric = string | number;
+
+/** floor / ceil round toward -∞ / +∞; half_up rounds halves away from zero. */
+export type Rounding = "floor" | "ceil" | "half_up";
+
+const SCALE = 8;
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TEN = BigInt(10);
+const UNIT = TEN ** BigInt(SCALE);
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+function divRound(n: bigint, d: bigint, rounding: Rounding): bigint {
+  if (d === ZERO) throw new Error("Division by zero");
+  if (d < ZERO) {
+    n = -n;
+    d = -d;
+  }
+  const q = n / d; // truncates toward zero
+  const r = n % d;
+  if (r === ZERO) return q;
+
+  switch (rounding) {
+    case "floor":
+      return n < ZERO ? q - ONE : q;
+    case "ceil":
+      return n > ZERO ? q + ONE : q;
+    case "half_up": {
+      const twiceRemainder = (r < ZERO ? -r : r) * BigInt(2);
+      if (twiceRemainder < d) return q;
+      return n < ZERO ? q - ONE : q + ONE;
+    }
+  }
+}
+
+function toUnits(value: Numeric, rounding: Rounding = "half_up"): bigint {
+  let text: string;
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Error(`Invalid decimal: ${value}`);
+    // Extra digits so float noise is rounded away, not truncated into the result
+    text = value.toFixed(SCALE + 4);
+  } else {
+    text = value.trim();
+    if (/e/i.test(text)) text = Number(text).toFixed(SCALE + 4);
+  }
+
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal: ${value}`);
+  }
+  const [, sign, whole, fraction = ""] = match;
+  let digits = BigInt((whole || "0") + fraction);
+  if (sign === "-") digits = -digits;
+
+  if (fraction.length <= SCALE) {
+    return digits * TEN ** BigInt(SCALE - fraction.length);
+  }
+  return divRound(digits, TEN ** BigInt(fraction.length - SCALE), rounding);
+}
+
+function fromUnits(units: bigint): string {
+  const negative = units < ZERO;
+  const digits = (negative ? -units : units).toString().padStart(SCALE + 1, "0");
+  const whole = digits.slice(0, -SCALE);
+  const fraction = digits.slice(-SCALE);
+  return `${negative ? "-" : ""}${whole}.${fraction}`;
+}
+
+/** Parse any decimal string or number into the canonical 8-decimal form. */
+export function normalize(value: Numeric, rounding: Rounding = "half_up"): string {
+  return fromUnits(toUnits(value, rounding));
+}
+
+export function add(a: Numeric, b: Numeric): string {
+  return fromUnits(toUnits(a) + toUnits(b));
+}
+
+export function sub(a: Numeric, b: Numeric): string {
+  return fromUnits(toUnits(a) - toUnits(b));
+}
+
+export function sum(values: Numeric[]): string {
+  return fromUnits(values.reduce<bigint>((total, v) => total + toUnits(v), ZERO));
+}
+
+export function neg(a: Numeric): string {
+  return fromUnits(-toUnits(a));
+}
+
+export function abs(a: Numeric): string {
+  const units = toUnits(a);
+  return fromUnits(units < ZERO ? -units : units);
+}
+
+export function mul(a: Numeric, b: Numeric, rounding: Rounding = "half_up"): string {
+  return fromUnits(divRound(toUnits(a) * toUnits(b), UNIT, rounding));
+}
+
+/** Multiply several factors with a single rounding at the end. */
+export function product(factors: Numeric[], rounding: Rounding = "half_up"): string {
+  let units = UNIT;
+  let scale = ONE;
+  for (const factor of factors) {
+    units *= toUnits(factor);
+    scale *= UNIT;
+  }
+  return fromUnits(divRound(units, scale, rounding));
+}
+
+export function div(a: Numeric, b: Numeric, rounding: Rounding = "half_up"): string {
+  return fromUnits(divRound(toUnits(a) * UNIT, toUnits(b), rounding));
+}
+
+/** Remainder of a ÷ b, with the sign of a. */
+export function mod(a: Numeric, b: Numeric): string {
+  const divisor = toUnits(b);
+  if (divisor === ZERO) throw new Error("Division by zero");
+  return fromUnits(toUnits(a) % divisor);
+}
+
+/** a × b ÷ c with a single rounding — for pro-rata shares. */
+export function mulDiv(
+  a: Numeric,
+  b: Numeric,
+  c: Numeric,
+  rounding: Rounding = "half_up"
+): string {
+  return fromUnits(divRound(toUnits(a) * toUnits(b), toUnits(c), rounding));
+}
+
+/** Round to a multiple of step (a tick or lot size). */
+export function roundToStep(
+  value: Numeric,
+  step: Numeric,
+  rounding: Rounding = "half_up"
+): string {
+  const stepUnits = toUnits(step);
+  return fromUnits(divRound(toUnits(value), stepUnits, rounding) * stepUnits);
+}
+
+export function isMultipleOf(value: Numeric, step: Numeric): boolean {
+  return toUnits(value) % toUnits(step) === ZERO;
+}
+
+export function cmp(a: Numeric, b: Numeric): -1 | 0 | 1 {
+  const ua = toUnits(a);
+  const ub = toUnits(b);
+  return ua < ub ? -1 : ua > ub ? 1 : 0;
+}
+
+export const eq = (a: Numeric, b: Numeric) => cmp(a, b) === 0;
+export const lt = (a: Numeric, b: Numeric) => cmp(a, b) < 0;
+export const lte = (a: Numeric, b: Numeric) => cmp(a, b) <= 0;
+export const gt = (a: Numeric, b: Numeric) => cmp(a, b) > 0;
+export const gte = (a: Numeric, b: Numeric) => cmp(a, b) >= 0;
+
+export const isZero = (a: Numeric) => toUnits(a) === ZERO;
+export const isPositive = (a: Numeric) => toUnits(a) > ZERO;
+export const isNegative = (a: Numeric) => toUnits(a) < ZERO;
+
+export function min(a: Numeric, b: Numeric): string {
+  return lte(a, b) ? normalize(a) : normalize(b);
+}
+
+export function max(a: Numeric, b: Numeric): string {
+  return gte(a, b) ? normalize(a) : normalize(b);
+}
+
+/** Lossy — for display, ratios and UI only, never for amounts written back. */
+export function toNumber(value: Numeric): number {
+  return Number(normalize(value));
+}
+
+// ── Rounding rules ────────────────────────────────────────────────────
+
+/** Prices snap to the pair's tick size. */
+export function roundPrice(
+  pair: PairKey,
+  price: Numeric,
+  rounding: Rounding = "half_up"
+): string {
+  return roundToStep(price, PAIRS[pair].tickSize, rounding);
+}
+
+/** Quantities are cut down to the pair's lot size — never rounded up. */
+export function roundQuantity(pair: PairKey, quantity: Numeric): string {
+  return roundToStep(quantity, PAIRS[pair].lotSize, "floor");
+}
+
+/**
+ * Quote currency owed for a spot fill. Buyer and seller use the same figure,
+ * so the transfer always nets to zero.
+ */
+export function calculateQuoteAmount(quantity: Numeric, price: Numeric): string {
+  return mul(quantity, price, "half_up");
+}
+
+/** Fees are always rounded up to the next 10^-8. */
+export function calculateFee(feeBase: Numeric, feeRate: Numeric): string {
+  return mul(feeBase, feeRate, "ceil");
+}
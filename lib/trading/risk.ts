@@ -0,0 +1,23 @@
+import * as dec from "./decimal";
+import type { Numeric } from "./decimal";
+
+/**
+ * Futures risk tiers (PAIRS[contract].riskTiers): the larger a position's
+ * notional, the lower its maximum leverage and the higher its maintenance
+ * margin rate. Pure, so margin maths, the order checks and OrderForm agree.
+ */
+
+export interface RiskTier {
+  maxNotional: string | null; // null — no upper bound
+  maxLeverage: number;
+  maintenanceMarginRate: string;
+}
+
+/** The first tier whose cap the notional fits under. */
+export function getRiskTier(tiers: readonly RiskTier[], notional: Numeric): RiskTier {
+  return (
+    tiers.find(
+      (tier) => tier.maxNotional === null || dec.lte(notional, tier.maxNotional)
+    ) ?? tiers[tiers.length - 1]
+  );
+}
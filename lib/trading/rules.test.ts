@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { checkOrderRules } from "./rules";
+
+const codes = (violations: { code: string }[]) => violations.map((v) => v.code);
+
+describe("checkOrderRules", () => {
+  it("passes an order within every rule", () => {
+    expect(
+      checkOrderRules("XAU-PERP", { price: "2650.00", quantity: "5", leverage: 10 }, "2650")
+    ).toEqual([]);
+  });
+
+  it("checks every price field against the tick", () => {
+    const violations = checkOrderRules("XAU-PERP", {
+      price: "2650.005",
+      triggerPrice: "2640.001",
+      stopLossPrice: "2600",
+      quantity: "1",
+    });
+    expect(violations.filter((v) => v.code === "PRICE_TICK").map((v) => v.field)).toEqual([
+      "price",
+      "triggerPrice",
+    ]);
+  });
+
+  it("checks quantities against the lot and the size limits", () => {
+    expect(codes(checkOrderRules("XAU-PERP", { quantity: "1.5" }))).toEqual(["QUANTITY_LOT"]);
+    expect(codes(checkOrderRules("USDT-USDC", { quantity: "0.0005" }))).toEqual([
+      "QUANTITY_LOT",
+      "QUANTITY_BELOW_MIN",
+    ]);
+    expect(codes(checkOrderRules("XAU-PERP", { quantity: "20000" }))).toContain(
+      "QUANTITY_ABOVE_MAX"
+    );
+    expect(
+      checkOrderRules("XAU-PERP", { quantity: "5", displayQuantity: "0.5" })[0]
+    ).toMatchObject({ code: "QUANTITY_LOT", field: "displayQuantity" });
+  });
+
+  it("values market orders at the reference price for the minimum notional", () => {
+    expect(codes(checkOrderRules("USDT-USDC", { quantity: "0.001" }, "1"))).toEqual([
+      "NOTIONAL_BELOW_MIN",
+    ]);
+    // No reference, nothing to value the order at
+    expect(checkOrderRules("USDT-USDC", { quantity: "0.001" })).toEqual([]);
+  });
+
+  it("keeps limit prices inside the band around the reference", () => {
+    expect(codes(checkOrderRules("XAU-PERP", { price: "3000", quantity: "1" }, "2650"))).toEqual([
+      "PRICE_OUTSIDE_BAND",
+    ]);
+    expect(checkOrderRules("XAU-PERP", { price: "2915", quantity: "1" }, "2650")).toEqual([]);
+    expect(checkOrderRules("XAU-PERP", { price: "3000", quantity: "1" })).toEqual([]);
+  });
+
+  it("caps leverage by the tier of the resulting position", () => {
+    // 5000 contracts × 0.001 oz × $2650 = $13,250 — the 20x tier
+    expect(
+      codes(checkOrderRules("XAU-PERP", { quantity: "5000", leverage: 50 }, "2650"))
+    ).toEqual(["LEVERAGE_ABOVE_TIER"]);
+    expect(checkOrderRules("XAU-PERP", { quantity: "5000", leverage: 20 }, "2650")).toEqual([]);
+  });
+
+  it("counts the position and working orders the order adds to", () => {
+    const order = { quantity: "1000", leverage: 50 };
+    expect(checkOrderRules("XAU-PERP", order, "2650")).toEqual([]);
+    expect(
+      codes(checkOrderRules("XAU-PERP", { ...order, positionQuantity: "3000" }, "2650"))
+    ).toEqual(["LEVERAGE_ABOVE_TIER"]);
+    expect(
+      codes(checkOrderRules("XAU-PERP", { quantity: "1", positionQuantity: "200000" }, "2650"))
+    ).toEqual(["POSITION_ABOVE_MAX"]);
+  });
+
+  it("skips half-typed form input", () => {
+    expect(checkOrderRules("XAU-PERP", { price: "", quantity: "abc" }, "2650")).toEqual([]);
+  });
+});
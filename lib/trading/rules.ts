@@ -0,0 +1,179 @@
+import { PAIRS } from "./constants";
+import type { PairKey } from "./constants";
+import * as dec from "./decimal";
+import { getRiskTier } from "./risk";
+
+/**
+ * Instrument trading rules, driven by PAIRS: tick and lot alignment, order
+ * size limits, minimum notional, a price band around a reference price
+ * (mark on futures, the peg on spot) and, on futures, the risk tier's
+ * leverage cap and the per-account position limit. Pure, so the order routes and
+ * OrderForm apply exactly the same checks and messages.
+ */
+
+export type RuleCode =
+  | "PRICE_TICK"
+  | "QUANTITY_LOT"
+  | "QUANTITY_BELOW_MIN"
+  | "QUANTITY_ABOVE_MAX"
+  | "NOTIONAL_BELOW_MIN"
+  | "PRICE_OUTSIDE_BAND"
+  | "LEVERAGE_ABOVE_TIER"
+  | "POSITION_ABOVE_MAX";
+
+export interface RuleViolation {
+  code: RuleCode;
+  field: string;
+  message: string;
+}
+
+/** A rule violation raised from inside a service. */
+export class OrderRuleError extends Error {
+  readonly code: RuleCode;
+  readonly field: string;
+
+  constructor(violation: RuleViolation) {
+    super(violation.message);
+    this.name = "OrderRuleError";
+    this.code = violation.code;
+    this.field = violation.field;
+  }
+}
+
+export interface OrderRuleInput {
+  price?: string | null; // limit price — tick, band and notional
+  triggerPrice?: string | null;
+  takeProfitPrice?: string | null;
+  stopLossPrice?: string | null;
+  protectionPrice?: string | null;
+  quantity?: string | null;
+  displayQuantity?: string | null;
+  leverage?: number | null; // futures — checked against the resulting position's tier
+  positionQuantity?: string | null; // same-side position and working orders the order adds to
+}
+
+const PRICE_FIELDS = [
+  ["price", "Price"],
+  ["triggerPrice", "Trigger price"],
+  ["takeProfitPrice", "Take-profit price"],
+  ["stopLossPrice", "Stop-loss price"],
+  ["protectionPrice", "Protection price"],
+] as const;
+
+// Form inputs may be half-typed — only well-formed numbers are checked
+function isNumeric(value: string | null | undefined): value is string {
+  return !!value && value.trim() !== "" && !isNaN(Number(value));
+}
+
+/**
+ * Check an order against its pair's rules. Returns every violation, most
+ * basic first; an empty list means the order passes. Without a reference
+ * price the band is skipped and market orders skip the notional check.
+ */
+export function checkOrderRules(
+  pair: PairKey,
+  order: OrderRuleInput,
+  referencePrice?: string | null
+): RuleViolation[] {
+  const config = PAIRS[pair];
+  const violations: RuleViolation[] = [];
+
+  for (const [field, label] of PRICE_FIELDS) {
+    const value = order[field];
+    if (isNumeric(value) && !dec.isMultipleOf(value, config.tickSize)) {
+      violations.push({
+        code: "PRICE_TICK",
+        field,
+        message: `${label} must be a multiple of the tick size ${config.tickSize}`,
+      });
+    }
+  }
+
+  for (const [field, label] of [
+    ["quantity", "Quantity"],
+    ["displayQuantity", "Display quantity"],
+  ] as const) {
+    const value = order[field];
+    if (!isNumeric(value)) continue;
+    if (!dec.isMultipleOf(value, config.lotSize)) {
+      violations.push({
+        code: "QUANTITY_LOT",
+        field,
+        message: `${label} must be a multiple of the lot size ${config.lotSize}`,
+      });
+    }
+    if (dec.lt(value, config.minQuantity)) {
+      violations.push({
+        code: "QUANTITY_BELOW_MIN",
+        field,
+        message: `Minimum ${label.toLowerCase()} is ${config.minQuantity}`,
+      });
+    }
+    if (dec.gt(value, config.maxQuantity)) {
+      violations.push({
+        code: "QUANTITY_ABOVE_MAX",
+        field,
+        message: `Maximum ${label.toLowerCase()} is ${config.maxQuantity}`,
+      });
+    }
+  }
+
+  const notionalPrice = isNumeric(order.price) ? order.price : referencePrice;
+  if (isNumeric(order.quantity) && isNumeric(notionalPrice)) {
+    const notional =
+      config.type === "spot"
+        ? dec.mul(order.quantity, notionalPrice)
+        : dec.product([order.quantity, config.contractSize, notionalPrice]);
+    if (dec.lt(notional, config.minNotional)) {
+      violations.push({
+        code: "NOTIONAL_BELOW_MIN",
+        field: "quantity",
+        message: `Order value must be at least $${config.minNotional} (currently $${dec.toNumber(notional).toFixed(2)})`,
+      });
+    }
+  }
+
+  if (
+    config.type === "futures" &&
+    isNumeric(order.quantity) &&
+    isNumeric(notionalPrice)
+  ) {
+    const positionQuantity = isNumeric(order.positionQuantity)
+      ? dec.add(order.positionQuantity, order.quantity)
+      : order.quantity;
+    const positionNotional = dec.product([
+      positionQuantity,
+      config.contractSize,
+      notionalPrice,
+    ]);
+    const tier = getRiskTier(config.riskTiers, positionNotional);
+    if (order.leverage && order.leverage > tier.maxLeverage) {
+      violations.push({
+        code: "LEVERAGE_ABOVE_TIER",
+        field: "leverage",
+        message: `Maximum leverage for a $${dec.toNumber(positionNotional).toFixed(2)} position is ${tier.maxLeverage}x`,
+      });
+    }
+    if (dec.gt(positionNotional, config.maxPositionNotional)) {
+      violations.push({
+        code: "POSITION_ABOVE_MAX",
+        field: "quantity",
+        message: `Position value would be $${dec.toNumber(positionNotional).toFixed(2)} — the maximum per account is $${config.maxPositionNotional}`,
+      });
+    }
+  }
+
+  if (isNumeric(order.price) && isNumeric(referencePrice)) {
+    const lower = dec.mul(referencePrice, dec.sub(1, config.priceBand));
+    const upper = dec.mul(referencePrice, dec.add(1, config.priceBand));
+    if (dec.lt(order.price, lower) || dec.gt(order.price, upper)) {
+      violations.push({
+        code: "PRICE_OUTSIDE_BAND",
+        field: "price",
+        message: `Price must be within ±${dec.toNumber(config.priceBand) * 100}% of the reference price ($${dec.toNumber(lower)} – $${dec.toNumber(upper)})`,
+      });
+    }
+  }
+
+  return violations;
+}
@@ -1,15 +1,38 @@
 import type { InferSelectModel } from "drizzle-orm";
-import type { orders, trades, positions } from "@/lib/db/schema";
+import type {
+  orders,
+  trades,
+  positions,
+  twapOrders,
+  liquidationEvents,
+} from "@/lib/db/schema";
 
 export type Order = InferSelectModel<typeof orders>;
 export type Trade = InferSelectModel<typeof trades>;
 export type Position = InferSelectModel<typeof positions>;
+export type TwapOrder = InferSelectModel<typeof twapOrders>;
+export type LiquidationEvent = InferSelectModel<typeof liquidationEvents>;
 
 export type OrderSide = "buy" | "sell";
-export type OrderType = "limit" | "market";
-export type OrderStatus = "open" | "partial" | "filled" | "cancelled";
+export type OrderType =
+  | "limit"
+  | "market"
+  | "stop_market"
+  | "stop_limit"
+  | "trailing_stop";
+export type TimeInForce = "gtc" | "ioc" | "fok" | "gtd" | "post_only";
+export type StpMode =
+  | "cancel_newest"
+  | "cancel_oldest"
+  | "cancel_both"
+  | "decrement_and_cancel";
+export type MarginMode = "isolated" | "cross";
+export type MarketStatus = "open" | "cancel-only" | "post-only" | "halted" | "auction";
+export type OrderStatus = "pending" | "open" | "partial" | "filled" | "cancelled";
+export type TwapStatus = "active" | "paused" | "completed" | "partially_filled" | "cancelled";
 export type PositionSide = "long" | "short";
 export type PositionStatus = "open" | "closed" | "liquidated";
+export type LiquidationStep = "orders_cancelled" | "partial" | "full" | "adl";
 
 export interface OrderBookLevel {
   price: string;
@@ -28,6 +51,15 @@ export interface MatchResult {
   fills: Fill[];
   remainingQuantity: string;
   orderStatus: OrderStatus;
+  selfTrade: SelfTradeOutcome | null;
+}
+
+/** What self-trade prevention did when an order met its owner's resting orders. */
+export interface SelfTradeOutcome {
+  mode: StpMode;
+  cancelledOrderIds: string[]; // resting orders cancelled or decremented to nothing
+  decrementedQuantity: string; // taken off the incoming order without trading
+  takerCancelled: boolean; // the incoming order's remainder was cancelled
 }
 
 export interface Fill {